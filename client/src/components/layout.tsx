@@ -0,0 +1,207 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Link, useLocation } from "wouter";
+import { useAccount, useChainId, useConnect, useDisconnect, useSwitchChain } from "wagmi";
+import { BarChart3, Cpu, History, Pickaxe, Wallet } from "lucide-react";
+import { SiX, SiGithub, SiYoutube, SiInstagram, SiTelegram, SiDiscord } from "react-icons/si";
+import { network } from "@/config";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { useSiwe } from "@/hooks/use-siwe";
+import { useFaucetAccount } from "@/hooks/use-faucet-account";
+import { formatUSDC } from "@/lib/format";
+
+const NAV_ITEMS = [
+  { href: "/", label: "Mine", icon: Pickaxe },
+  { href: "/history", label: "History", icon: History },
+  { href: "/stats", label: "Stats", icon: BarChart3 },
+];
+
+/** Header, wallet controls and footer shared by every page. */
+export function Layout({ children }: { children: ReactNode }) {
+  const [location] = useLocation();
+  const { address, isConnected } = useAccount();
+  const { connect, connectors } = useConnect();
+  // main.tsx configures the app's wallet first: the browser extension, or the mock chain's dev account
+  const walletConnector = connectors[0];
+  const { disconnect } = useDisconnect();
+  const { switchChain } = useSwitchChain();
+  const currentChainId = useChainId();
+  const { isSignedIn, signIn, signOut } = useSiwe();
+  const [isSwitchingNetwork, setIsSwitchingNetwork] = useState(false);
+
+  const isOnArcNetwork = currentChainId === network.chainId;
+
+  const { balance: walletBalance } = useFaucetAccount(address);
+
+  // Auto-connect wallet on load
+  useEffect(() => {
+    if (!isConnected) {
+      connect({ connector: walletConnector });
+    }
+  }, [connect, walletConnector, isConnected]);
+
+  // Auto-switch to the configured network when connected but on wrong network
+  useEffect(() => {
+    const switchToArcNetwork = async () => {
+      if (isConnected && currentChainId !== network.chainId && !isSwitchingNetwork) {
+        setIsSwitchingNetwork(true);
+        try {
+          await switchChain({ chainId: network.chainId });
+          toast({
+            title: "Network Changed",
+            description: `Switched to ${network.name} successfully.`,
+          });
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Network Switch Failed",
+            description: `Please switch to ${network.name} manually in your wallet.`,
+          });
+        } finally {
+          setIsSwitchingNetwork(false);
+        }
+      }
+    };
+    switchToArcNetwork();
+  }, [isConnected, currentChainId, switchChain, isSwitchingNetwork]);
+
+  useEffect(() => {
+    if (signIn.error) {
+      toast({
+        variant: "destructive",
+        title: "Sign In Failed",
+        description: signIn.error.message,
+      });
+    }
+  }, [signIn.error]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 md:p-8 font-mono relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-primary to-transparent opacity-50"></div>
+
+      <div className="max-w-6xl mx-auto space-y-8 relative z-10">
+        <header className="flex flex-col md:flex-row justify-between items-center gap-4 border-b border-border/40 pb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-lg bg-primary/20 flex items-center justify-center border border-primary/50">
+              <Cpu className="w-6 h-6 text-primary animate-pulse" />
+            </div>
+            <div>
+              <Link href="/">
+                <h1 className="text-2xl font-bold tracking-tighter cursor-pointer" data-testid="text-app-title">ArcMiner</h1>
+              </Link>
+              <p className="text-xs text-muted-foreground uppercase tracking-widest">Testnet Simulation POW</p>
+            </div>
+          </div>
+
+          <nav className="flex items-center gap-1" data-testid="nav-main">
+            {NAV_ITEMS.map(({ href, label, icon: Icon }) => (
+              <Link key={href} href={href}>
+                <Button
+                  variant={location === href ? "secondary" : "ghost"}
+                  size="sm"
+                  className="text-xs"
+                  data-testid={`link-nav-${label.toLowerCase()}`}
+                >
+                  <Icon className="w-4 h-4 mr-2" /> {label}
+                </Button>
+              </Link>
+            ))}
+            {address && (
+              <Link href={`/wallet/${address}`}>
+                <Button
+                  variant={location.toLowerCase() === `/wallet/${address.toLowerCase()}` ? "secondary" : "ghost"}
+                  size="sm"
+                  className="text-xs"
+                  data-testid="link-nav-wallet"
+                >
+                  <Wallet className="w-4 h-4 mr-2" /> My Wallet
+                </Button>
+              </Link>
+            )}
+          </nav>
+          
+          <div className="flex items-center gap-3">
+            {isConnected ? (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2 bg-card border border-border rounded-md px-4 py-2">
+                  <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
+                  <div className="flex flex-col">
+                    <span className="text-sm font-medium" data-testid="text-wallet-address">{address?.slice(0, 6)}...{address?.slice(-4)}</span>
+                    <Badge variant="outline" className="text-xs px-1 py-0 h-4 w-fit" data-testid="badge-network">{network.name}</Badge>
+                  </div>
+                  {isSignedIn ? (
+                    <Button variant="ghost" size="sm" onClick={() => signOut.mutate()} className="h-6 ml-2 text-xs" data-testid="button-sign-out">
+                      Sign out
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => signIn.mutate()}
+                      disabled={signIn.isPending}
+                      className="h-6 ml-2 text-xs"
+                      data-testid="button-sign-in"
+                    >
+                      {signIn.isPending ? "Signing..." : "Sign in"}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => disconnect()} className="h-6 ml-2 text-xs" data-testid="button-disconnect">
+                    Disconnect
+                  </Button>
+                </div>
+                {isOnArcNetwork && walletBalance !== undefined && (
+                  <div className="flex flex-col items-end">
+                    <span className="text-xs text-muted-foreground">My Balance</span>
+                    <span className="text-sm font-bold text-green-400 font-mono" data-testid="text-wallet-usdc-balance">
+                      {formatUSDC(walletBalance)} USDC
+                    </span>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <Button onClick={() => connect({ connector: walletConnector })} className="bg-primary hover:bg-primary/90 text-primary-foreground" data-testid="button-connect">
+                <Wallet className="w-4 h-4 mr-2" /> Connect Wallet
+              </Button>
+            )}
+          </div>
+        </header>
+
+        <main>{children}</main>
+
+        <footer className="border-t border-border/40 pt-6 pb-4">
+          <div className="text-center space-y-4">
+            <p className="text-lg font-bold">ArcMiner</p>
+            <div className="flex items-center justify-center gap-4">
+              <a href="https://x.com/madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-x">
+                <SiX className="w-5 h-5" />
+              </a>
+              <a href="https://github.com/madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-github">
+                <SiGithub className="w-5 h-5" />
+              </a>
+              <a href="https://www.youtube.com/@madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-youtube">
+                <SiYoutube className="w-5 h-5" />
+              </a>
+              <a href="https://farcaster.xyz/madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-farcaster">
+                <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M18.24 0.24H5.76C2.58 0.24 0 2.82 0 6v12c0 3.18 2.58 5.76 5.76 5.76h12.48c3.18 0 5.76-2.58 5.76-5.76V6c0-3.18-2.58-5.76-5.76-5.76zM19.52 18c0 0.85-0.69 1.54-1.54 1.54H6.02c-0.85 0-1.54-0.69-1.54-1.54V6c0-0.85 0.69-1.54 1.54-1.54h11.96c0.85 0 1.54 0.69 1.54 1.54v12z"/>
+                  <path d="M8.25 7.5L6 10.5v6h3V12h1.5v4.5H12v-6L9.75 7.5h-1.5zM15.75 7.5L13.5 10.5v6h3V12H18v4.5h1.5v-6L17.25 7.5h-1.5z"/>
+                </svg>
+              </a>
+              <a href="https://www.instagram.com/madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-instagram">
+                <SiInstagram className="w-5 h-5" />
+              </a>
+              <a href="https://web.telegram.org/k/#@madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-telegram">
+                <SiTelegram className="w-5 h-5" />
+              </a>
+              <a href="https://discord.com/users/madnessinvestor" target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground transition-colors" data-testid="link-social-discord">
+                <SiDiscord className="w-5 h-5" />
+              </a>
+            </div>
+            <p className="text-xs text-muted-foreground">2025 ArcMiner - Built on Arc Network. All rights reserved.</p>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
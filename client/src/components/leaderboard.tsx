@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Trophy } from "lucide-react";
+import type { Leaderboard as LeaderboardData, LeaderboardEntry, LeaderboardWindow } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  "24h": "24h",
+  "7d": "7 days",
+  "30d": "30 days",
+  all: "All time",
+};
+
+const TOP_N = 10;
+
+function LeaderboardRow({ entry, highlighted }: { entry: LeaderboardEntry; highlighted: boolean }) {
+  return (
+    <TableRow
+      className={cn(highlighted && "bg-primary/10 hover:bg-primary/15")}
+      data-testid={`row-leaderboard-${entry.walletAddress}`}
+    >
+      <TableCell className="font-bold">#{entry.rank}</TableCell>
+      <TableCell className="font-mono">
+        <Link href={`/wallet/${entry.walletAddress}`} className="hover:text-primary">
+          {entry.walletAddress.slice(0, 6)}...{entry.walletAddress.slice(-4)}
+        </Link>
+        {highlighted && <span className="ml-2 text-xs text-primary">(you)</span>}
+      </TableCell>
+      <TableCell className="text-right text-green-500">{entry.totalClaimed} USDC</TableCell>
+      <TableCell className="text-right">{entry.claimCount}</TableCell>
+    </TableRow>
+  );
+}
+
+export function Leaderboard({ address }: { address?: string }) {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("7d");
+
+  const params = new URLSearchParams({ window: timeWindow, limit: String(TOP_N) });
+  if (address) params.set("wallet", address);
+
+  const { data, isLoading } = useQuery<LeaderboardData>({
+    queryKey: [`/api/leaderboard?${params}`],
+    refetchInterval: 60000,
+    staleTime: 0,
+  });
+
+  const isSelf = (entry: LeaderboardEntry) =>
+    !!address && entry.walletAddress.toLowerCase() === address.toLowerCase();
+  const walletOutsideTop = data?.wallet && !data.entries.some(isSelf) ? data.wallet : null;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+      <CardHeader className="pb-2">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Trophy className="w-4 h-4" /> Leaderboard
+          </CardTitle>
+          <Tabs value={timeWindow} onValueChange={(value) => setTimeWindow(value as LeaderboardWindow)}>
+            <TabsList>
+              {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((key) => (
+                <TabsTrigger key={key} value={key} className="text-xs" data-testid={`tab-leaderboard-${key}`}>
+                  {WINDOW_LABELS[key]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground text-center py-4">Loading...</p>
+        ) : !data || data.entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">No claims in this period yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Rank</TableHead>
+                <TableHead>Wallet</TableHead>
+                <TableHead className="text-right">Claimed</TableHead>
+                <TableHead className="text-right">Claims</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.entries.map((entry) => (
+                <LeaderboardRow key={entry.walletAddress} entry={entry} highlighted={isSelf(entry)} />
+              ))}
+              {walletOutsideTop && (
+                <>
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-1">...</TableCell>
+                  </TableRow>
+                  <LeaderboardRow entry={walletOutsideTop} highlighted />
+                </>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Activity } from "lucide-react";
+import type { ClaimHistoryResponse } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { shortAddress } from "@/lib/format";
+
+/** Latest faucet claims; kept current by the live feed, polled only while it is down. */
+export function RecentClaims({ live, limit = 8 }: { live: boolean; limit?: number }) {
+  const { data, isLoading } = useQuery<ClaimHistoryResponse>({
+    queryKey: ["/api/claim-history"],
+    refetchInterval: live ? false : 30000,
+  });
+  const claims = data?.claims;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Activity className="w-4 h-4" /> Recent Claims
+          </CardTitle>
+          <Badge variant="outline" className="text-xs" data-testid="badge-live-status">
+            <span className={`w-2 h-2 rounded-full mr-2 ${live ? "bg-green-500 animate-pulse" : "bg-muted-foreground"}`} />
+            {live ? "Live" : "Polling"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground text-center py-4">Loading...</p>
+        ) : !claims || claims.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">No claims yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {claims.slice(0, limit).map((claim) => (
+              <li
+                key={claim.transactionHash ?? claim.id}
+                className="flex items-center justify-between text-xs animate-in fade-in slide-in-from-top-1"
+                data-testid={`row-recent-claim-${claim.transactionHash ?? claim.id}`}
+              >
+                <Link href={`/wallet/${claim.walletAddress}`} className="font-mono hover:text-primary">
+                  {shortAddress(claim.walletAddress)}
+                </Link>
+                <span className="text-green-500">{parseFloat(claim.amount).toFixed(2)} USDC</span>
+                {claim.transactionHash ? (
+                  <Link href={`/tx/${claim.transactionHash}`} className="text-muted-foreground hover:text-foreground">
+                    {formatDistanceToNow(new Date(claim.claimedAt), { addSuffix: true })}
+                  </Link>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(claim.claimedAt), { addSuffix: true })}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
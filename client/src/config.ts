@@ -1 +1,30 @@
-export const FAUCET_ADDRESS = "0xBd736A5D744A6364dd74B12Bb679d66360d7AeD9";
+import { defineChain } from "viem";
+import { MOCK_RPC_PATH, parseNetworkProfile } from "@shared/network";
+
+// injected by vite.config.ts from the same profile the server loads
+declare const __NETWORK_PROFILE__: unknown;
+
+export const network = parseNetworkProfile(__NETWORK_PROFILE__);
+
+export const FAUCET_ADDRESS = network.faucetAddress;
+export const USDC_ADDRESS = network.usdcAddress;
+
+// the mock chain lives on whichever host serves the app, not the server's own localhost
+const rpcUrl = network.mock ? `${window.location.origin}${MOCK_RPC_PATH}` : network.rpcUrl;
+
+export const arcChain = defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: {
+    decimals: 18,
+    name: "USDC",
+    symbol: "USDC",
+  },
+  rpcUrls: {
+    default: { http: [rpcUrl] },
+  },
+  blockExplorers: {
+    default: { name: "ArcScan", url: network.explorerUrl },
+  },
+  testnet: network.testnet,
+});
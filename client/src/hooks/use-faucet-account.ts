@@ -0,0 +1,61 @@
+import { useReadContract } from "wagmi";
+import type { Address } from "viem";
+import { FAUCET_ADDRESS, USDC_ADDRESS, network } from "@/config";
+import ArcMiningFaucetABI from "@/abi/ArcMiningFaucet.json";
+import USDCABI from "@/abi/USDC.json";
+import { useLiveFeed } from "@/hooks/use-live-feed";
+
+/**
+ * On-chain faucet state for any address: `claimInfo` and its USDC balance.
+ * Reads are pinned to the Arc chain so they work without a connected wallet
+ * (or with one on another network), and are refreshed whenever the live feed
+ * reports a claim by `address`.
+ */
+export function useFaucetAccount(address: Address | undefined) {
+  const enabled = !!address;
+
+  const claimInfo = useReadContract({
+    address: FAUCET_ADDRESS,
+    abi: ArcMiningFaucetABI,
+    functionName: "claimInfo",
+    args: address ? [address] : undefined,
+    chainId: network.chainId,
+    query: { enabled },
+  });
+
+  const { connected: isLive } = useLiveFeed({
+    onClaim: (claim) => {
+      if (address && claim.walletAddress.toLowerCase() === address.toLowerCase()) refetch();
+    },
+  });
+
+  const balance = useReadContract({
+    address: USDC_ADDRESS,
+    abi: USDCABI,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    chainId: network.chainId,
+    query: {
+      enabled,
+      refetchInterval: isLive ? false : 10000,
+    },
+  });
+
+  const refetch = () => {
+    claimInfo.refetch();
+    balance.refetch();
+  };
+
+  const [totalClaimed, remainingAllowance, nextClaimTime] =
+    (claimInfo.data as readonly [bigint, bigint, bigint] | undefined) ?? [];
+
+  return {
+    totalClaimed,
+    remainingAllowance,
+    /** When the contract accepts this address's next claim; in the past means now. */
+    nextClaimAt: nextClaimTime !== undefined ? new Date(Number(nextClaimTime) * 1000) : undefined,
+    balance: balance.data as bigint | undefined,
+    isLoading: claimInfo.isLoading || balance.isLoading,
+    refetch,
+  };
+}
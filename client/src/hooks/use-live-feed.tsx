@@ -0,0 +1,103 @@
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { LIVE_FEED_PATH, type ClaimHistoryResponse, type LiveEvent, type RecentClaim } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+const MAX_RECENT_CLAIMS = 100;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+function addClaim(history: ClaimHistoryResponse | undefined, claim: RecentClaim): ClaimHistoryResponse | undefined {
+  // nothing cached yet: the first fetch will include it
+  if (!history) return history;
+  const hash = claim.transactionHash?.toLowerCase();
+  if (hash && history.claims.some((existing) => existing.transactionHash?.toLowerCase() === hash)) return history;
+  return { ...history, claims: [claim, ...history.claims].slice(0, MAX_RECENT_CLAIMS) };
+}
+
+type ClaimListener = (claim: RecentClaim) => void;
+
+interface LiveFeedState {
+  connected: boolean;
+  subscribe: (listener: ClaimListener) => () => void;
+}
+
+const LiveFeedContext = createContext<LiveFeedState>({ connected: false, subscribe: () => () => {} });
+
+/**
+ * Holds the app's one connection to the server's live feed and writes its
+ * events straight into the React Query cache. The socket reconnects with
+ * backoff after it drops.
+ */
+export function LiveFeedProvider({ children }: { children: ReactNode }) {
+  const [connected, setConnected] = useState(false);
+  const listeners = useRef(new Set<ClaimListener>());
+  const [state] = useState<Omit<LiveFeedState, "connected">>(() => ({
+    subscribe: (listener) => {
+      listeners.current.add(listener);
+      return () => listeners.current.delete(listener);
+    },
+  }));
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_FEED_PATH}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        // catch up on anything missed while disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/total-claimed"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/claim-history"] });
+      };
+
+      socket.onmessage = (message) => {
+        let event: LiveEvent;
+        try {
+          event = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+
+        if (event.type === "claim.created") {
+          queryClient.setQueryData<ClaimHistoryResponse>(["/api/claim-history"], (history) => addClaim(history, event.claim));
+          listeners.current.forEach((listener) => listener(event.claim));
+        } else if (event.type === "stats.updated") {
+          queryClient.setQueryData(["/api/total-claimed"], event.totals);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, []);
+
+  return <LiveFeedContext.Provider value={{ ...state, connected }}>{children}</LiveFeedContext.Provider>;
+}
+
+/** `connected` tells callers when they can stop polling; `onClaim` runs for every pushed claim. */
+export function useLiveFeed(options: { onClaim?: ClaimListener } = {}) {
+  const { connected, subscribe } = useContext(LiveFeedContext);
+  const onClaim = useRef(options.onClaim);
+  onClaim.current = options.onClaim;
+
+  useEffect(() => subscribe((claim) => onClaim.current?.(claim)), [subscribe]);
+
+  return { connected };
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { useAccount } from "wagmi";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { network } from "@/config";
+import { toast } from "@/hooks/use-toast";
+import { useSiwe } from "@/hooks/use-siwe";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { connectMiningPool } from "@/lib/mining-pool";
+import { PowMiner, workerCountFor } from "@/lib/pow-miner";
+import { DEFAULT_BLOCK_DIFFICULTY, DEFAULT_SHARE_DIFFICULTY, formatHashrate, type MinerDevices } from "@shared/pow";
+import { describeMiningEvent, MiningEngine, type MiningEvent } from "@shared/mining-engine";
+import type { MiningSessionAction, MiningSessionView } from "@shared/schema";
+import type { StratumClient, StratumJob } from "@shared/stratum";
+
+const MAX_LOGS = 50;
+const TICK_MS = 100;
+const COOLDOWN_TICK_MS = 1000;
+const HASHRATE_LOG_MS = 10000;
+
+export interface MiningLog {
+  id: number;
+  timestamp: string;
+  type: "block" | "share" | "info" | "reward";
+  message: string;
+}
+
+/** Engine events that the server's copy of the session follows. */
+const SESSION_ACTIONS: Partial<Record<MiningEvent["type"], MiningSessionAction>> = {
+  started: "start",
+  paused: "pause",
+  resumed: "resume",
+  stopped: "stop",
+  completed: "complete",
+};
+
+interface UseMiningSessionOptions {
+  devices: MinerDevices;
+  /** When the wallet may start its next session, from the server's eligibility check. */
+  cooldownUntil: number | null;
+  onEvent?: (event: MiningEvent) => void;
+}
+
+/**
+ * Runs the mining console on a `MiningEngine`: workers hash while it is
+ * mining, shares go through the pool when the wallet is signed in, and the
+ * session is saved to and restored from the server. Renders from the engine's
+ * snapshot plus the console log and measured hashrate.
+ */
+export function useMiningSession({ devices, cooldownUntil, onEvent }: UseMiningSessionOptions) {
+  const { address } = useAccount();
+  const { isSignedIn } = useSiwe();
+  const [engine] = useState(() => new MiningEngine({ reward: parseFloat(network.claimAmount) }));
+  const [state, setState] = useState(engine.state);
+  // re-renders while the clock moves the snapshot
+  const [, setNow] = useState(() => Date.now());
+  const [hashRate, setHashRate] = useState(0);
+  const [logs, setLogs] = useState<MiningLog[]>([]);
+  const logIdRef = useRef(0);
+  const hashRateRef = useRef(0);
+  hashRateRef.current = hashRate;
+
+  const addLog = (type: MiningLog["type"], message: string, at = Date.now()) => {
+    logIdRef.current += 1;
+    const log: MiningLog = {
+      id: logIdRef.current,
+      timestamp: new Date(at).toLocaleTimeString("en-US", { hour12: false }),
+      type,
+      message,
+    };
+    setLogs((prev) => [...prev.slice(-MAX_LOGS), log]);
+  };
+
+  // sessions are only saved for a signed-in wallet; otherwise mining stays local to the tab
+  const { data: savedSession } = useQuery<MiningSessionView | null>({
+    queryKey: ["/api/sessions"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: isSignedIn,
+  });
+  const restoredSessionId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (isSignedIn) queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  }, [isSignedIn, address]);
+
+  const sessionMutation = useMutation({
+    mutationFn: async (data: { action: MiningSessionAction }) => {
+      const res = await apiRequest("POST", "/api/sessions", data);
+      return (await res.json()) as MiningSessionView;
+    },
+    onSuccess: (session) => {
+      restoredSessionId.current = session.id;
+      queryClient.setQueryData(["/api/sessions"], session);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Session Not Saved",
+        description: error.message,
+      });
+    },
+  });
+
+  // read through a ref so the engine's listener always sees the latest render
+  const handleEvent = useRef<(event: MiningEvent) => void>(() => {});
+  handleEvent.current = (event) => {
+    if (event.type === "started" || event.type === "stopped" || event.type === "claimed" || event.type === "restored") {
+      setLogs([]);
+    }
+    if (event.type === "started") {
+      const workers = workerCountFor(devices);
+      const names = [devices.cpu && "CPU", devices.gpu && "GPU"].filter(Boolean).join(" + ");
+      addLog("info", "Connecting to Arc Testnet Node...", event.at);
+      addLog("info", "Connection established successfully", event.at);
+      addLog("info", `Mining started with ${names} (${workers} worker${workers === 1 ? "" : "s"})`, event.at);
+    }
+    const line = describeMiningEvent(event, engine.reward);
+    if (line) addLog(line.type, line.message, event.at);
+
+    const action = SESSION_ACTIONS[event.type];
+    if (action && isSignedIn) sessionMutation.mutate({ action });
+    onEvent?.(event);
+  };
+
+  useEffect(
+    () =>
+      engine.subscribe((event, next) => {
+        setState(next);
+        handleEvent.current(event);
+      }),
+    [engine],
+  );
+
+  useEffect(() => {
+    engine.setCooldown(cooldownUntil);
+  }, [engine, cooldownUntil]);
+
+  // pick up where a reload, crash or reconnect left off
+  useEffect(() => {
+    if (!savedSession || savedSession.id === restoredSessionId.current) return;
+    if (state.status !== "idle" && state.status !== "cooldown") return;
+    restoredSessionId.current = savedSession.id;
+    if (savedSession.status !== "mining" && savedSession.status !== "paused" && savedSession.status !== "completed") return;
+    engine.restore(savedSession);
+  }, [engine, savedSession, state.status]);
+
+  useEffect(() => {
+    if (state.status !== "mining" && state.status !== "cooldown") return;
+    const timer = setInterval(
+      () => {
+        engine.tick();
+        setNow(Date.now());
+      },
+      state.status === "mining" ? TICK_MS : COOLDOWN_TICK_MS,
+    );
+    return () => clearInterval(timer);
+  }, [engine, state.status]);
+
+  useEffect(() => {
+    if (state.status !== "mining" || !state.seed) return;
+    const workers = workerCountFor(devices);
+
+    // signed in, the pool issues jobs and vouches for every share; otherwise
+    // shares are only counted locally. Signing in or switching wallets restarts
+    // the miner against the right pool connection, and it keeps hashing locally
+    // until that pool delivers a job: one signed in mid-session has no server
+    // session yet, so the pool may never issue one.
+    let cancelled = false;
+    let pool: StratumClient | null = null;
+    let job: StratumJob | null = null;
+
+    const miner = new PowMiner({
+      onHashrate: setHashRate,
+      onShare: (share) => {
+        if (!pool || !job || !address) {
+          engine.recordShare(share);
+          return;
+        }
+        pool
+          .submit(address, job.id, share.nonce)
+          .then(() => {
+            if (!cancelled) engine.recordShare(share);
+          })
+          .catch((error) => {
+            if (!cancelled) addLog("info", `Share rejected: ${error.message}`);
+          });
+      },
+    });
+
+    const seed = state.seed;
+    const mineLocally = () => {
+      job = null;
+      miner.start({ seed, shareDifficulty: DEFAULT_SHARE_DIFFICULTY, blockDifficulty: DEFAULT_BLOCK_DIFFICULTY }, workers);
+    };
+
+    mineLocally();
+    if (isSignedIn && address) {
+      const client = connectMiningPool({
+        onJob: (next) => {
+          if (cancelled) return;
+          if (job) addLog("info", `New job, share difficulty ${next.shareDifficulty.toLocaleString("en-US")}`);
+          job = next;
+          miner.start(next, workers);
+        },
+        onMessage: (message) => addLog("info", `Pool: ${message}`),
+        onClose: () => {
+          if (cancelled) return;
+          addLog("info", "Mining pool unavailable; shares will not be verified");
+          pool = null;
+          // already local if no job came; restarting the seed would find the same shares again
+          if (job) mineLocally();
+        },
+      });
+      pool = client;
+      client
+        .subscribe("arcminer-web")
+        .then(() => client.authorize(address))
+        .catch((error) => {
+          if (cancelled) return;
+          addLog("info", `Mining pool refused the miner: ${error.message}`);
+          client.close();
+        });
+    }
+
+    const logTimer = setInterval(() => {
+      addLog("info", `Hashrate: ${formatHashrate(hashRateRef.current)}`);
+    }, HASHRATE_LOG_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(logTimer);
+      pool?.close();
+      miner.stop();
+    };
+  }, [engine, state.status, state.seed, devices.cpu, devices.gpu, isSignedIn, address]);
+
+  return {
+    ...engine.snapshot(),
+    hashRate: state.status === "mining" ? hashRate : 0,
+    logs,
+    start: () => engine.start(),
+    pause: () => engine.pause(),
+    resume: () => engine.resume(),
+    stop: () => engine.stop(),
+    /** Settles a completed session once its reward has been claimed. */
+    claimed: () => {
+      if (engine.state.status === "completed") engine.claimed();
+    },
+  };
+}
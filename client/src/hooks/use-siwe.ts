@@ -0,0 +1,57 @@
+import { useAccount, useSignMessage } from "wagmi";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { createSiweMessage } from "viem/siwe";
+import type { Address } from "viem";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { network } from "@/config";
+
+interface SessionUser {
+  address: Address;
+}
+
+export function useSiwe() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const { data: user, isLoading } = useQuery<SessionUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const signIn = useMutation({
+    mutationFn: async () => {
+      if (!address) throw new Error("Connect a wallet first");
+
+      const { nonce } = await (await apiRequest("GET", "/api/auth/nonce")).json();
+      const message = createSiweMessage({
+        address,
+        chainId: network.chainId,
+        domain: window.location.host,
+        nonce,
+        uri: window.location.origin,
+        version: "1",
+        statement: "Sign in to ArcMiner.",
+      });
+      const signature = await signMessageAsync({ message });
+      const res = await apiRequest("POST", "/api/auth/verify", { message, signature });
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (signedIn) => {
+      queryClient.setQueryData(["/api/auth/me"], signedIn);
+    },
+  });
+
+  const signOut = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  // a session for a different account than the one connected doesn't count
+  const isSignedIn = !!user && !!address && user.address.toLowerCase() === address.toLowerCase();
+
+  return { user, isLoading, isSignedIn, signIn, signOut };
+}
@@ -0,0 +1,17 @@
+import { csvRow, type CsvValue } from "@shared/csv";
+
+/** Serializes rows as RFC 4180 CSV using `columns` as the header and key order. */
+export function toCsv<T extends Record<string, CsvValue>>(rows: T[], columns: (keyof T & string)[]): string {
+  return csvRow(columns) + rows.map((row) => csvRow(columns.map((column) => row[column]))).join("");
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,16 @@
+import { formatUnits } from "viem";
+import { formatDistanceToNow } from "date-fns";
+import type { CacheMeta } from "@shared/schema";
+
+export const formatUSDC = (value: bigint | undefined) => {
+  if (!value) return "0.00";
+  return parseFloat(formatUnits(value, 6)).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+export const formatFreshness = (meta: CacheMeta | undefined) => {
+  if (!meta?.fetchedAt) return null;
+  const age = formatDistanceToNow(new Date(meta.fetchedAt), { addSuffix: true });
+  return meta.stale ? `Updated ${age} (refreshing)` : `Updated ${age}`;
+};
+
+export const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
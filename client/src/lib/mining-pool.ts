@@ -0,0 +1,7 @@
+import { STRATUM_PATH, StratumClient, type StratumClientHandlers } from "@shared/stratum";
+
+/** Opens a Stratum connection to this app's mining pool; see `@shared/stratum` for the protocol. */
+export function connectMiningPool(handlers: StratumClientHandlers): StratumClient {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return new StratumClient(new WebSocket(`${protocol}//${window.location.host}${STRATUM_PATH}`), handlers);
+}
@@ -0,0 +1,84 @@
+import type { Hex } from "viem";
+import {
+  difficultyToTarget,
+  minerWorkerCount,
+  type FoundNonce,
+  type MinerDevices,
+  type MinerWorkerMessage,
+  type MinerWorkerRequest,
+} from "@shared/pow";
+
+export interface PowJob {
+  seed: Hex;
+  shareDifficulty: number;
+  blockDifficulty: number;
+}
+
+export type FoundShare = FoundNonce;
+
+export interface PowMinerHandlers {
+  onShare: (share: FoundShare) => void;
+  /** Measured hashes per second across all workers. */
+  onHashrate: (hashesPerSecond: number) => void;
+}
+
+export function randomSeed(): Hex {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+export const workerCountFor = (devices: MinerDevices) => minerWorkerCount(devices, navigator.hardwareConcurrency || 2);
+
+/**
+ * Runs keccak256 proof-of-work over a job in Web Workers. Each worker walks
+ * its own residue class of nonces (`i, i + n, i + 2n, ...`) so none repeat.
+ */
+export class PowMiner {
+  private workers: Worker[] = [];
+  private rates: number[] = [];
+
+  constructor(private handlers: PowMinerHandlers) {}
+
+  get running(): boolean {
+    return this.workers.length > 0;
+  }
+
+  start(job: PowJob, workerCount: number) {
+    this.stop();
+    const shareTarget = difficultyToTarget(job.shareDifficulty);
+    const blockTarget = difficultyToTarget(job.blockDifficulty);
+
+    for (let index = 0; index < workerCount; index++) {
+      const worker = new Worker(new URL("../workers/miner.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (event: MessageEvent<MinerWorkerMessage>) => this.handle(index, event.data);
+      const request: MinerWorkerRequest = {
+        type: "start",
+        seed: job.seed,
+        shareTarget,
+        blockTarget,
+        startNonce: index,
+        stride: workerCount,
+      };
+      worker.postMessage(request);
+      this.workers.push(worker);
+      this.rates.push(0);
+    }
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.rates = [];
+    this.handlers.onHashrate(0);
+  }
+
+  private handle(index: number, message: MinerWorkerMessage) {
+    if (message.type === "share") {
+      this.handlers.onShare({ nonce: message.nonce, hash: message.hash, block: message.block });
+      return;
+    }
+    this.rates[index] = (message.count / message.elapsedMs) * 1000;
+    this.handlers.onHashrate(this.rates.reduce((total, rate) => total + rate, 0));
+  }
+}
@@ -1,10 +1,40 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const retryAfter = parseInt(res.headers.get("Retry-After") ?? "", 10);
+    throw new ApiError(
+      res.status,
+      `${res.status}: ${text}`,
+      Number.isNaN(retryAfter) ? undefined : retryAfter * 1000,
+    );
+  }
+}
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// rate-limited queries wait out Retry-After instead of failing; nothing else retries
+function retryRateLimited(failureCount: number, error: Error) {
+  return error instanceof ApiError && error.status === 429 && failureCount < MAX_RATE_LIMIT_RETRIES;
+}
+
+function rateLimitDelay(failureCount: number, error: Error) {
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
   }
+  return Math.min(1000 * 2 ** failureCount, 30000);
 }
 
 export async function apiRequest(
@@ -48,7 +78,8 @@ export const queryClient = new QueryClient({
       refetchInterval: false,
       refetchOnWindowFocus: false,
       staleTime: Infinity,
-      retry: false,
+      retry: retryRateLimited,
+      retryDelay: rateLimitDelay,
     },
     mutations: {
       retry: false,
@@ -6,35 +6,21 @@ import { queryClient } from "@/lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import App from "./App";
 import { WagmiProvider, createConfig, http } from "wagmi";
-import { defineChain } from "viem";
 import { mainnet } from "wagmi/chains";
-import { injected } from "wagmi/connectors";
-
-// Arc Testnet Configuration
-const arcTestnet = defineChain({
-  id: 5042002,
-  name: "Arc Testnet",
-  nativeCurrency: {
-    decimals: 18,
-    name: "USDC",
-    symbol: "USDC",
-  },
-  rpcUrls: {
-    default: { http: ["https://rpc.testnet.arc.network"] },
-  },
-  blockExplorers: {
-    default: { name: "ArcScan", url: "https://testnet.arcscan.app" },
-  },
-  testnet: true,
-});
+import { injected, mock } from "wagmi/connectors";
+import { MOCK_WALLET_ADDRESS } from "@shared/network";
+import { arcChain, network } from "./config";
 
 const config = createConfig({
-  chains: [arcTestnet, mainnet],
+  chains: [arcChain, mainnet],
   connectors: [
-    injected({ shimDisconnect: true }),
+    // the mock chain signs for its dev wallet, so no extension is needed offline
+    network.mock
+      ? mock({ accounts: [MOCK_WALLET_ADDRESS], features: { reconnect: true } })
+      : injected({ shimDisconnect: true }),
   ],
   transports: {
-    [arcTestnet.id]: http("https://rpc.testnet.arc.network"),
+    [arcChain.id]: http(arcChain.rpcUrls.default.http[0]),
     [mainnet.id]: http(),
   },
 });
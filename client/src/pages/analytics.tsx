@@ -0,0 +1,243 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Download } from "lucide-react";
+import type { ClaimTimeseries, FaucetBalanceHistory, TimeseriesBucket } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { downloadCsv, toCsv } from "@/lib/csv";
+
+type Range = "24h" | "7d" | "30d" | "90d";
+
+const RANGES: Record<Range, { label: string; bucket: TimeseriesBucket; ms: number }> = {
+  "24h": { label: "24h", bucket: "hour", ms: 24 * 60 * 60 * 1000 },
+  "7d": { label: "7 days", bucket: "hour", ms: 7 * 24 * 60 * 60 * 1000 },
+  "30d": { label: "30 days", bucket: "day", ms: 30 * 24 * 60 * 60 * 1000 },
+  "90d": { label: "90 days", bucket: "day", ms: 90 * 24 * 60 * 60 * 1000 },
+};
+
+const claimsConfig = {
+  claimCount: { label: "Claims", color: "var(--color-primary)" },
+} satisfies ChartConfig;
+
+const cumulativeConfig = {
+  cumulative: { label: "USDC distributed", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const walletsConfig = {
+  newWallets: { label: "New", color: "var(--color-primary)" },
+  returningWallets: { label: "Returning", color: "hsl(199 89% 48%)" },
+} satisfies ChartConfig;
+
+const balanceConfig = {
+  balance: { label: "Faucet balance", color: "hsl(38 92% 50%)" },
+} satisfies ChartConfig;
+
+function ChartCard({
+  title,
+  onDownload,
+  empty,
+  children,
+  testId,
+}: {
+  title: string;
+  onDownload: () => void;
+  empty: boolean;
+  children: ReactNode;
+  testId: string;
+}) {
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-primary/20" data-testid={`card-${testId}`}>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={onDownload}
+          disabled={empty}
+          data-testid={`button-download-${testId}`}
+        >
+          <Download className="w-3 h-3 mr-1" /> CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {empty ? (
+          <p className="text-xs text-muted-foreground text-center py-16">No data for this range yet.</p>
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Analytics() {
+  const [range, setRange] = useState<Range>("30d");
+  const { bucket, ms } = RANGES[range];
+
+  // snap `to` to the minute so the query key stays stable between renders
+  const to = Math.ceil(Date.now() / 60000) * 60000;
+  const params = new URLSearchParams({
+    bucket,
+    from: new Date(to - ms).toISOString(),
+    to: new Date(to).toISOString(),
+  });
+
+  const { data: series, isLoading } = useQuery<ClaimTimeseries>({
+    queryKey: [`/api/stats/timeseries?${params}`],
+    placeholderData: keepPreviousData,
+    refetchInterval: 60000,
+  });
+  const { data: balance } = useQuery<FaucetBalanceHistory>({
+    queryKey: [`/api/stats/faucet-balance?${new URLSearchParams({ from: params.get("from")!, to: params.get("to")! })}`],
+    placeholderData: keepPreviousData,
+    refetchInterval: 60000,
+  });
+
+  const rows = useMemo(() => {
+    if (!series) return [];
+    let cumulative = parseFloat(series.claimedBefore);
+    return series.points.map((point) => {
+      cumulative += parseFloat(point.totalClaimed);
+      return {
+        bucketStart: point.bucketStart,
+        claimCount: point.claimCount,
+        totalClaimed: parseFloat(point.totalClaimed),
+        cumulative: Number(cumulative.toFixed(2)),
+        uniqueWallets: point.uniqueWallets,
+        newWallets: point.newWallets,
+        returningWallets: point.uniqueWallets - point.newWallets,
+      };
+    });
+  }, [series]);
+
+  const balanceRows = useMemo(
+    () => (balance?.points ?? []).map((point) => ({ sampledAt: point.sampledAt, balance: parseFloat(point.balance) })),
+    [balance],
+  );
+
+  const tickFormat = (value: string) => format(new Date(value), bucket === "hour" ? "MMM d HH:mm" : "MMM d");
+  const labelFormat = (value: string) => format(new Date(value), bucket === "hour" ? "MMM d, HH:mm" : "MMM d, yyyy");
+  const noClaims = !rows.some((row) => row.claimCount > 0) && parseFloat(series?.claimedBefore ?? "0") === 0;
+
+  const download = (name: string, data: Record<string, string | number>[], columns: string[]) => {
+    downloadCsv(`arcminer-${name}-${range}.csv`, toCsv(data, columns));
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tighter flex items-center gap-2" data-testid="text-analytics-title">
+            <BarChart3 className="w-6 h-6 text-primary" /> Faucet Analytics
+          </h2>
+          <p className="text-xs text-muted-foreground uppercase tracking-widest">Claims, wallets and faucet balance</p>
+        </div>
+        <Tabs value={range} onValueChange={(value) => setRange(value as Range)}>
+          <TabsList>
+            {(Object.keys(RANGES) as Range[]).map((key) => (
+              <TabsTrigger key={key} value={key} className="text-xs" data-testid={`tab-range-${key}`}>
+                {RANGES[key].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground text-center py-16">Loading...</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <ChartCard
+            title={bucket === "hour" ? "Claims per hour" : "Claims per day"}
+            testId="claims"
+            empty={noClaims}
+            onDownload={() => download("claims", rows, ["bucketStart", "claimCount", "totalClaimed"])}
+          >
+            <ChartContainer config={claimsConfig} className="h-64 w-full">
+              <BarChart data={rows}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucketStart" tickFormatter={tickFormat} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={labelFormat} />} />
+                <Bar dataKey="claimCount" fill="var(--color-claimCount)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="Cumulative USDC distributed"
+            testId="cumulative"
+            empty={noClaims}
+            onDownload={() => download("cumulative", rows, ["bucketStart", "totalClaimed", "cumulative"])}
+          >
+            <ChartContainer config={cumulativeConfig} className="h-64 w-full">
+              <AreaChart data={rows}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucketStart" tickFormatter={tickFormat} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={labelFormat} />} />
+                <Area
+                  dataKey="cumulative"
+                  type="monotone"
+                  stroke="var(--color-cumulative)"
+                  fill="var(--color-cumulative)"
+                  fillOpacity={0.2}
+                />
+              </AreaChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="New vs returning wallets"
+            testId="wallets"
+            empty={noClaims}
+            onDownload={() =>
+              download("wallets", rows, ["bucketStart", "uniqueWallets", "newWallets", "returningWallets"])
+            }
+          >
+            <ChartContainer config={walletsConfig} className="h-64 w-full">
+              <BarChart data={rows}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucketStart" tickFormatter={tickFormat} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={labelFormat} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="newWallets" stackId="wallets" fill="var(--color-newWallets)" />
+                <Bar dataKey="returningWallets" stackId="wallets" fill="var(--color-returningWallets)" />
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="Faucet balance"
+            testId="balance"
+            empty={balanceRows.length === 0}
+            onDownload={() => download("faucet-balance", balanceRows, ["sampledAt", "balance"])}
+          >
+            <ChartContainer config={balanceConfig} className="h-64 w-full">
+              <LineChart data={balanceRows}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="sampledAt" tickFormatter={tickFormat} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={labelFormat} />} />
+                <Line dataKey="balance" type="stepAfter" stroke="var(--color-balance)" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useAccount } from "wagmi";
+import { History as HistoryIcon } from "lucide-react";
+import { RecentClaims } from "@/components/recent-claims";
+import { Leaderboard } from "@/components/leaderboard";
+import { useLiveFeed } from "@/hooks/use-live-feed";
+
+export default function History() {
+  const { address } = useAccount();
+  const { connected: isLive } = useLiveFeed();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tighter flex items-center gap-2" data-testid="text-history-title">
+          <HistoryIcon className="w-6 h-6 text-primary" /> Claim History
+        </h2>
+        <p className="text-xs text-muted-foreground uppercase tracking-widest">Latest faucet claims and top miners</p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 items-start">
+        <RecentClaims live={isLive} limit={50} />
+        <Leaderboard address={address} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,711 @@
+import { useState, useEffect, useRef } from "react";
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useSwitchChain, useChainId } from "wagmi";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FAUCET_ADDRESS, USDC_ADDRESS, network } from "@/config";
+import { maxClaimTotalUnits } from "@shared/network";
+import ArcMiningFaucetABI from "@/abi/ArcMiningFaucet.json";
+import USDCABI from "@/abi/USDC.json";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Wallet, Zap, AlertCircle, Terminal, Cpu, Play, Pause, Square, Banknote, DollarSign, Monitor, AlertTriangle, Link, Clock, TrendingUp, Download } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RecentClaims } from "@/components/recent-claims";
+import { useLiveFeed } from "@/hooks/use-live-feed";
+import { useFaucetAccount } from "@/hooks/use-faucet-account";
+import { useMiningSession, type MiningLog } from "@/hooks/use-mining-session";
+import { formatFreshness, formatUSDC } from "@/lib/format";
+import { formatHashrate } from "@shared/pow";
+import type { CacheMeta, ClaimEligibility, ClaimTotals } from "@shared/schema";
+
+const MAX_CLAIM_LIMIT = maxClaimTotalUnits(network);
+const CLAIM_AMOUNT = Number(network.claimAmount).toLocaleString("en-US");
+const MAX_CLAIM_TOTAL = Number(network.maxClaimTotal).toLocaleString("en-US");
+const ARC_TESTNET_CHAIN_ID = network.chainId;
+
+/** Share of the wallet's lifetime limit, for the progress bars. */
+const limitPercent = (units: bigint) =>
+  MAX_CLAIM_LIMIT > BigInt(0) ? Number((units * BigInt(100)) / MAX_CLAIM_LIMIT) : 0;
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor((ms / 1000) % 60);
+  const minutes = Math.floor((ms / 1000 / 60) % 60);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function Mine() {
+  const { address, isConnected } = useAccount();
+  const { switchChain } = useSwitchChain();
+  const currentChainId = useChainId();
+  
+  const { writeContract, data: hash, error: writeError } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  const [showStopWarning, setShowStopWarning] = useState(false);
+  
+  const [cpuEnabled, setCpuEnabled] = useState(true);
+  const [gpuEnabled, setGpuEnabled] = useState(false);
+  
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const isOnArcNetwork = currentChainId === ARC_TESTNET_CHAIN_ID;
+  const [isSwitchingNetwork, setIsSwitchingNetwork] = useState(false);
+
+
+  const handleSwitchNetwork = async () => {
+    setIsSwitchingNetwork(true);
+    try {
+      await switchChain({ chainId: ARC_TESTNET_CHAIN_ID });
+      toast({
+        title: "Network Changed",
+        description: "Switched to Arc Testnet successfully.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Network Switch Failed",
+        description: "Please switch to Arc Testnet manually in your wallet.",
+      });
+    } finally {
+      setIsSwitchingNetwork(false);
+    }
+  };
+
+  // the faucet balance moves with every claim; the account reads follow their own wallet
+  const { connected: isLive } = useLiveFeed({
+    onClaim: (claim) => {
+      refetchBalance();
+      if (address && claim.walletAddress.toLowerCase() === address.toLowerCase()) {
+        queryClient.invalidateQueries({ queryKey: [`/api/claim-eligibility/${address}`] });
+      }
+    },
+  });
+
+  const {
+    totalClaimed = BigInt(0),
+    remainingAllowance = BigInt(0),
+    refetch: refetchAccount,
+  } = useFaucetAccount(address);
+
+  const { data: contractBalance, refetch: refetchBalance } = useReadContract({
+    address: USDC_ADDRESS,
+    abi: USDCABI,
+    functionName: "balanceOf",
+    args: [FAUCET_ADDRESS],
+    query: {
+      refetchInterval: isLive ? false : 10000,
+    },
+  });
+
+  const { data: totalClaimedData, isLoading: isLoadingTotalClaimed } = useQuery<ClaimTotals & CacheMeta>({
+    queryKey: ['/api/total-claimed'],
+    refetchInterval: isLive ? false : 30000,
+    staleTime: 0,
+  });
+
+  // the server derives the cooldown from the wallet's last real claim, from any device
+  const { data: eligibility, dataUpdatedAt: eligibilityFetchedAt } = useQuery<ClaimEligibility>({
+    queryKey: [`/api/claim-eligibility/${address}`],
+    enabled: !!address,
+  });
+  // counted from the server's own clock so a skewed local clock can't shorten it
+  const cooldownEndsAt = eligibility?.unlocksAt
+    ? eligibilityFetchedAt + (new Date(eligibility.unlocksAt).getTime() - new Date(eligibility.checkedAt).getTime())
+    : 0;
+
+  const mining = useMiningSession({
+    devices: { cpu: cpuEnabled, gpu: gpuEnabled },
+    cooldownUntil: cooldownEndsAt || null,
+    onEvent: (event) => {
+      if (event.type === 'completed') {
+        toast({
+          title: "Mining Complete!",
+          description: `${CLAIM_AMOUNT} USDC ready to claim.`,
+        });
+      }
+    },
+  });
+  const miningState = mining.status;
+  const isOnCooldown = miningState === 'cooldown';
+  const isIdle = miningState === 'idle' || isOnCooldown;
+
+  const createClaimMutation = useMutation({
+    mutationFn: async (data: { walletAddress: string; amount: string; transactionHash?: string }) => {
+      const res = await apiRequest('POST', '/api/claim-history', data);
+      return await res.json();
+    },
+    onSuccess: (_claim, { walletAddress }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/total-claimed'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/claim-eligibility/${walletAddress}`] });
+      // the server closes the completed session once the claim is recorded
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+    },
+  });
+
+  // Check if wallet has reached its lifetime claim limit
+  const hasReachedLimit = totalClaimed >= MAX_CLAIM_LIMIT;
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [mining.logs]);
+
+  const startMining = () => {
+    if (!isOnArcNetwork) {
+      toast({
+        variant: "destructive",
+        title: "Wrong Network",
+        description: "Please switch to Arc Testnet to start mining.",
+      });
+      return;
+    }
+    if (hasReachedLimit) {
+      toast({
+        variant: "destructive",
+        title: "Limit Reached",
+        description: `Your wallet has reached the maximum claim limit of ${MAX_CLAIM_TOTAL} USDC.`,
+      });
+      return;
+    }
+    if (isOnCooldown) {
+      toast({
+        variant: "destructive",
+        title: "Cooldown Active",
+        description: "Please wait for the cooldown timer to finish before starting a new mining session.",
+      });
+      return;
+    }
+    if (!cpuEnabled && !gpuEnabled) {
+      toast({
+        variant: "destructive",
+        title: "No Mining Device",
+        description: "Please enable CPU or GPU to start mining.",
+      });
+      return;
+    }
+    mining.start();
+  };
+
+  const pauseMining = () => {
+    mining.pause();
+  };
+
+  const continueMining = () => {
+    mining.resume();
+  };
+
+  const openStopWarning = () => {
+    setShowStopWarning(true);
+  };
+
+  const confirmStop = () => {
+    setShowStopWarning(false);
+    mining.stop();
+    toast({
+      variant: "destructive",
+      title: "Mining Stopped",
+      description: "All mined balance has been lost. Start again to mine.",
+    });
+  };
+
+  const cancelStopWarning = () => {
+    setShowStopWarning(false);
+  };
+
+  const handleClaim = () => {
+    if (!isConnected || !address) return;
+    if (!isOnArcNetwork) {
+      toast({
+        variant: "destructive",
+        title: "Wrong Network",
+        description: "Please switch to Arc Testnet to claim rewards.",
+      });
+      return;
+    }
+    
+    writeContract({
+      address: FAUCET_ADDRESS,
+      abi: ArcMiningFaucetABI,
+      functionName: "claim",
+      chainId: ARC_TESTNET_CHAIN_ID,
+    });
+  };
+
+  useEffect(() => {
+    if (isConfirmed && hash && address) {
+      createClaimMutation.mutate({
+        walletAddress: address,
+        amount: network.claimAmount,
+        transactionHash: hash,
+      });
+
+      toast({
+        title: "Claim Successful!",
+        description: `${CLAIM_AMOUNT} USDC has been sent to your wallet.`,
+      });
+      mining.claimed();
+      refetchAccount();
+      refetchBalance();
+    }
+  }, [isConfirmed, hash, address]);
+
+  useEffect(() => {
+    if (writeError) {
+      toast({
+        variant: "destructive",
+        title: "Claim Failed",
+        description: writeError.message,
+      });
+    }
+  }, [writeError]);
+
+  const getLogColor = (type: MiningLog['type']) => {
+    switch (type) {
+      case 'block': return 'text-yellow-400';
+      case 'share': return 'text-green-400';
+      case 'reward': return 'text-cyan-400';
+      default: return 'text-muted-foreground';
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {!isConnected && (
+        <div className="space-y-8">
+          <div className="h-[40vh] flex flex-col items-center justify-center text-center space-y-6">
+            <div className="w-24 h-24 rounded-2xl bg-primary/20 flex items-center justify-center border border-primary/50 shadow-[0_0_30px_rgba(124,58,237,0.3)]">
+              <Cpu className="w-12 h-12 text-primary" />
+            </div>
+            <div className="space-y-2 max-w-md">
+              <h2 className="text-3xl font-bold tracking-tighter">Welcome to ArcMiner</h2>
+              <p className="text-muted-foreground">Connect your wallet to start simulating mining operations on the Arc Testnet and earn USDC rewards.</p>
+            </div>
+          </div>
+
+          <Card className="bg-card/50 backdrop-blur-sm border-primary/20 max-w-2xl mx-auto">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <TrendingUp className="w-4 h-4" /> Total Distributed
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-4">
+                {isLoadingTotalClaimed ? (
+                  <p className="text-xs text-muted-foreground">Loading...</p>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="text-4xl font-bold text-green-500" data-testid="text-total-distributed-welcome">
+                      {totalClaimedData?.totalClaimed || "0.00"} USDC
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Total claimed by {totalClaimedData?.claimCount || 0} miners from the faucet
+                    </p>
+                    {formatFreshness(totalClaimedData) && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-total-freshness-welcome">
+                        {formatFreshness(totalClaimedData)}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground font-mono break-all mt-2">
+                      Faucet: {FAUCET_ADDRESS}
+                    </p>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isConnected && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+              <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <Wallet className="w-4 h-4" /> Total Claimed
+                </CardTitle>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" data-testid="button-download-history">
+                      <Download className="w-3 h-3 mr-1" /> Download history
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {(["csv", "json", "ndjson"] as const).map((format) => (
+                      <DropdownMenuItem key={format} asChild>
+                        <a
+                          href={`/api/claim-history/${address}/export?format=${format}`}
+                          download
+                          data-testid={`link-download-history-${format}`}
+                        >
+                          {format.toUpperCase()}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="text-3xl font-bold" data-testid="text-total-claimed">{formatUSDC(totalClaimed)} USDC</div>
+                <Progress value={limitPercent(totalClaimed)} className="h-1 mt-3 bg-primary/10" />
+                <p className="text-xs text-muted-foreground mt-2">Limit: {formatUSDC(MAX_CLAIM_LIMIT)} USDC</p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <Zap className="w-4 h-4" /> Allowance Remaining
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="text-3xl font-bold" data-testid="text-allowance-remaining">{formatUSDC(remainingAllowance)} USDC</div>
+                <Progress value={limitPercent(remainingAllowance)} className="h-1 mt-3 bg-primary/10" />
+                <p className="text-xs text-muted-foreground mt-2 invisible">Placeholder</p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <DollarSign className="w-4 h-4" /> Contract Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="text-3xl font-bold text-green-500" data-testid="text-contract-balance">{formatUSDC(contractBalance as bigint)} USDC</div>
+                <Progress value={100} className="h-1 mt-3 bg-primary/10 invisible" />
+                <p className="text-xs text-muted-foreground mt-2">Available in Mining Pool</p>
+              </CardContent>
+            </Card>
+
+          </div>
+
+          {hasReachedLimit && (
+            <Alert className="bg-red-500/10 border-red-500/50">
+              <AlertTriangle className="h-4 w-4 text-red-500" />
+              <AlertTitle className="text-red-500">Mining Disabled</AlertTitle>
+              <AlertDescription className="text-red-400">
+                Your wallet has reached the maximum claim limit of {MAX_CLAIM_TOTAL} USDC. Mining is no longer available for this wallet.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!isOnArcNetwork && (
+            <Alert className="bg-orange-500/10 border-orange-500/50">
+              <Link className="h-4 w-4 text-orange-500" />
+              <AlertTitle className="text-orange-500">Wrong Network</AlertTitle>
+              <AlertDescription className="text-orange-400">
+                <p className="mb-2">You are not connected to Arc Testnet. Mining and claiming are only available on Arc Testnet.</p>
+                <Button 
+                  onClick={handleSwitchNetwork}
+                  disabled={isSwitchingNetwork}
+                  size="sm"
+                  className="bg-orange-600 hover:bg-orange-700 text-white"
+                  data-testid="button-switch-network"
+                >
+                  {isSwitchingNetwork ? "Switching..." : "Switch to Arc Testnet"}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card className="border-primary/50 bg-black/40 backdrop-blur-md overflow-hidden relative">
+            <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-20 pointer-events-none"></div>
+            
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Terminal className="w-5 h-5 text-primary" />
+                    Mining Console v1.0.5
+                  </CardTitle>
+                  <CardDescription>
+                    Select your mining devices and start earning USDC rewards.
+                  </CardDescription>
+                </div>
+                
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={cpuEnabled ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setCpuEnabled(!cpuEnabled)}
+                    disabled={miningState === 'mining' || miningState === 'paused'}
+                    className={`gap-2 ${cpuEnabled ? 'bg-blue-600 hover:bg-blue-700' : ''}`}
+                    data-testid="button-toggle-cpu"
+                  >
+                    <Cpu className="w-4 h-4" />
+                    CPU
+                  </Button>
+                  <Button
+                    variant={gpuEnabled ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setGpuEnabled(!gpuEnabled)}
+                    disabled={miningState === 'mining' || miningState === 'paused'}
+                    className={`gap-2 ${gpuEnabled ? 'bg-green-600 hover:bg-green-700' : ''}`}
+                    data-testid="button-toggle-gpu"
+                  >
+                    <Monitor className="w-4 h-4" />
+                    GPU
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            
+            <CardContent className="space-y-6 relative">
+              
+              <div 
+                ref={scrollRef}
+                className="h-48 rounded-lg border border-border bg-black/60 p-4 font-mono text-xs overflow-y-auto relative dark-scrollbar"
+              >
+                {isIdle && mining.logs.length === 0 && (
+                  <div className="absolute inset-0 flex items-center justify-center flex-col gap-4">
+                    <div className="w-16 h-16 rounded-full border-2 border-dashed border-muted-foreground animate-[spin_10s_linear_infinite]"></div>
+                    <p className="text-muted-foreground">System Idle. Ready to initialize.</p>
+                  </div>
+                )}
+
+                {miningState === 'paused' && (
+                  <div className="absolute inset-0 flex items-center justify-center flex-col gap-4 bg-black/80">
+                    <Pause className="w-16 h-16 text-yellow-500" />
+                    <p className="text-yellow-500 font-bold">Mining Paused</p>
+                    <p className="text-muted-foreground text-center">Timer paused. Click Continue to resume.</p>
+                  </div>
+                )}
+
+                {miningState === 'completed' && (
+                  <div className="absolute inset-0 flex items-center justify-center flex-col gap-4 bg-black/80">
+                    <Banknote className="w-16 h-16 text-green-500" />
+                    <p className="text-green-500 font-bold text-xl">{CLAIM_AMOUNT} USDC Ready!</p>
+                    <p className="text-muted-foreground text-center">Click Claim to receive your rewards.</p>
+                  </div>
+                )}
+
+                {mining.logs.length > 0 && miningState !== 'paused' && miningState !== 'completed' && (
+                  <div className="space-y-1">
+                    {miningState === 'mining' && (
+                      <div className="absolute inset-0 opacity-10 animate-scan bg-gradient-to-b from-transparent via-primary to-transparent h-[50%] w-full pointer-events-none"></div>
+                    )}
+                    {mining.logs.map((log) => (
+                      <p key={log.id} className={getLogColor(log.type)}>
+                        <span className="text-muted-foreground">[{log.timestamp}]</span> {log.message}
+                      </p>
+                    ))}
+                    {miningState === 'mining' && <p className="text-green-500 animate-pulse">_</p>}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div className="bg-black/40 rounded-md p-3 border border-border">
+                  <p className="text-xs text-muted-foreground">Hashrate</p>
+                  <p className="text-lg font-bold text-primary" data-testid="text-hashrate">
+                    {formatHashrate(mining.hashRate)}
+                  </p>
+                </div>
+                <div className="bg-black/40 rounded-md p-3 border border-border">
+                  <p className="text-xs text-muted-foreground">Shares Found</p>
+                  <p className="text-lg font-bold text-green-500" data-testid="text-shares">{mining.sharesFound}</p>
+                </div>
+                <div className="bg-black/40 rounded-md p-3 border border-border">
+                  <p className="text-xs text-muted-foreground">Blocks Found</p>
+                  <p className="text-lg font-bold text-yellow-500" data-testid="text-blocks">{mining.blocksFound}</p>
+                </div>
+                <div className="bg-black/40 rounded-md p-3 border border-border">
+                  <p className="text-xs text-muted-foreground">Pending Reward</p>
+                  <p className="text-lg font-bold text-cyan-400" data-testid="text-pending-reward">{mining.pendingReward.toFixed(2)} USDC</p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Session Progress</span>
+                  <div className="flex gap-4">
+                    <span className="text-primary font-bold">{mining.pendingReward.toFixed(2)} / {Number(network.claimAmount).toFixed(2)} USDC</span>
+                    <span className="font-bold">{Math.round(mining.progress)}%</span>
+                  </div>
+                </div>
+                <Progress value={mining.progress} className="h-3 bg-secondary" />
+                
+                <div className="flex justify-between items-center pt-4 flex-wrap gap-2">
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Time Remaining: </span>
+                    <span className="font-bold font-mono">{formatTime(mining.remainingMs)}</span>
+                  </div>
+
+                  {isIdle && (
+                    <Button 
+                      onClick={startMining} 
+                      disabled={!isOnArcNetwork || hasReachedLimit || isOnCooldown || (!cpuEnabled && !gpuEnabled)}
+                      className="w-48 bg-primary hover:bg-primary/90"
+                      data-testid="button-start-mining"
+                    >
+                      {isOnCooldown ? (
+                        <span data-testid="text-cooldown">
+                          <Clock className="w-4 h-4 mr-2 inline" /> Cooldown {formatTime(mining.cooldownRemainingMs)}
+                        </span>
+                      ) : (
+                        <>
+                          <Play className="w-4 h-4 mr-2" /> Start Mining
+                        </>
+                      )}
+                    </Button>
+                  )}
+
+                  {miningState === 'mining' && (
+                    <div className="flex gap-2 flex-wrap">
+                      <Button 
+                        onClick={pauseMining}
+                        variant="secondary"
+                        data-testid="button-pause-mining"
+                      >
+                        <Pause className="w-4 h-4 mr-2" /> Pause Mining
+                      </Button>
+                      <Button 
+                        onClick={openStopWarning}
+                        variant="destructive"
+                        data-testid="button-stop-mining"
+                      >
+                        <Square className="w-4 h-4 mr-2" /> Stop Mining
+                      </Button>
+                    </div>
+                  )}
+
+                  {miningState === 'paused' && (
+                    <div className="flex gap-2 flex-wrap">
+                      <Button 
+                        onClick={continueMining}
+                        className="bg-primary hover:bg-primary/90"
+                        data-testid="button-continue-mining"
+                      >
+                        <Play className="w-4 h-4 mr-2" /> Continue Mining
+                      </Button>
+                      <Button 
+                        onClick={openStopWarning}
+                        variant="destructive"
+                        data-testid="button-stop-mining-paused"
+                      >
+                        <Square className="w-4 h-4 mr-2" /> Stop Mining
+                      </Button>
+                    </div>
+                  )}
+
+                  {miningState === 'completed' && (
+                    <Button 
+                      onClick={handleClaim} 
+                      disabled={!isOnArcNetwork || isConfirming}
+                      className="w-48 bg-green-600 hover:bg-green-700 text-white"
+                      data-testid="button-claim"
+                    >
+                      {isConfirming ? (
+                        <>Confirming...</>
+                      ) : (
+                        <><Banknote className="w-4 h-4 mr-2" /> Claim {CLAIM_AMOUNT} USDC</>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Alert className="bg-primary/5 border-primary/20">
+              <AlertCircle className="h-4 w-4 text-primary" />
+              <AlertTitle>System Rules</AlertTitle>
+              <AlertDescription className="text-xs text-muted-foreground space-y-1 mt-2">
+                <p>Each mining session lasts 10 minutes.</p>
+                <p>Complete session reward: {CLAIM_AMOUNT} USDC.</p>
+                <p>Each wallet can receive up to {MAX_CLAIM_TOTAL} USDC total.</p>
+                <p>Pausing the mining also pauses the timer.</p>
+                <p className="text-red-400 font-semibold">Stopping the mining will reset all mined balance!</p>
+                <p className="break-all mt-2">Contract: {FAUCET_ADDRESS}</p>
+              </AlertDescription>
+            </Alert>
+
+            <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4" /> Total Distributed
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-center py-4">
+                  {isLoadingTotalClaimed ? (
+                    <p className="text-xs text-muted-foreground">Loading...</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="text-4xl font-bold text-green-500" data-testid="text-total-distributed">
+                        {totalClaimedData?.totalClaimed || "0.00"} USDC
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Total claimed by {totalClaimedData?.claimCount || 0} miners from the faucet
+                      </p>
+                      {formatFreshness(totalClaimedData) && (
+                        <p className="text-xs text-muted-foreground" data-testid="text-total-freshness">
+                          {formatFreshness(totalClaimedData)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+        </>
+      )}
+
+      <RecentClaims live={isLive} />
+
+      <Dialog open={showStopWarning} onOpenChange={setShowStopWarning}>
+        <DialogContent data-testid="dialog-stop-warning" className="border-red-500/50">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-500">
+              <AlertTriangle className="w-5 h-5" />
+              Warning: Stop Mining
+            </DialogTitle>
+            <DialogDescription className="text-red-400">
+              Are you sure you want to stop mining?
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <Alert className="bg-red-500/10 border-red-500/50">
+              <AlertTriangle className="h-4 w-4 text-red-500" />
+              <AlertTitle className="text-red-500">You will lose all mined balance!</AlertTitle>
+              <AlertDescription className="text-red-400 mt-2">
+                <p>Current mined: <span className="font-bold">{mining.pendingReward.toFixed(2)} USDC</span></p>
+                <p>Progress: <span className="font-bold">{Math.round(mining.progress)}%</span></p>
+                <p className="mt-2">If you stop now, you will need to start from zero and mine for 10 minutes again to earn {CLAIM_AMOUNT} USDC.</p>
+              </AlertDescription>
+            </Alert>
+          </div>
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Button
+              onClick={cancelStopWarning}
+              variant="outline"
+              className="w-full sm:w-auto"
+              data-testid="button-cancel-stop"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmStop}
+              variant="destructive"
+              className="w-full sm:w-auto"
+              data-testid="button-confirm-stop"
+            >
+              <Square className="w-4 h-4 mr-2" />
+              Yes, Stop Mining
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
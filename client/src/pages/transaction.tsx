@@ -0,0 +1,107 @@
+import type { ReactNode } from "react";
+import { Link } from "wouter";
+import { useTransaction, useTransactionReceipt } from "wagmi";
+import { erc20Abi, formatUnits, isAddressEqual, isHash, parseEventLogs, type Hash } from "viem";
+import { ExternalLink, Receipt } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { FAUCET_ADDRESS, USDC_ADDRESS, network } from "@/config";
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-1 md:gap-4 py-2 border-b border-border/40 last:border-0">
+      <span className="text-xs text-muted-foreground uppercase tracking-widest md:w-40 shrink-0">{label}</span>
+      <span className="text-sm font-mono break-all">{children}</span>
+    </div>
+  );
+}
+
+export default function TransactionPage({ hash }: { hash: string }) {
+  const valid = isHash(hash);
+  const { data: transaction, isLoading } = useTransaction({
+    hash: hash as Hash,
+    chainId: network.chainId,
+    query: { enabled: valid },
+  });
+  const { data: receipt } = useTransactionReceipt({
+    hash: hash as Hash,
+    chainId: network.chainId,
+    query: { enabled: valid },
+  });
+
+  if (!valid) {
+    return (
+      <Alert className="bg-red-500/10 border-red-500/50">
+        <AlertTitle className="text-red-500">Invalid transaction hash</AlertTitle>
+        <AlertDescription className="text-red-400 font-mono break-all">{hash}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const faucetTransfers = receipt
+    ? parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs: receipt.logs }).filter(
+        (entry) => isAddressEqual(entry.address, USDC_ADDRESS) && isAddressEqual(entry.args.from, FAUCET_ADDRESS)
+      )
+    : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="text-2xl font-bold tracking-tighter flex items-center gap-2">
+            <Receipt className="w-6 h-6 text-primary" /> Transaction
+          </h2>
+          <p className="text-xs text-muted-foreground font-mono break-all" data-testid="text-tx-hash">{hash}</p>
+        </div>
+        <a href={`${network.explorerUrl}/tx/${hash}`} target="_blank" rel="noopener noreferrer">
+          <Button variant="outline" size="sm" className="text-xs">
+            <ExternalLink className="w-3 h-3 mr-1" /> Explorer
+          </Button>
+        </a>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            Details
+            {receipt && (
+              <Badge
+                variant="outline"
+                className={receipt.status === "success" ? "text-green-500 border-green-500/50" : "text-red-500 border-red-500/50"}
+                data-testid="badge-tx-status"
+              >
+                {receipt.status === "success" ? "Success" : "Reverted"}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground text-center py-4">Loading...</p>
+          ) : !transaction ? (
+            <p className="text-xs text-muted-foreground text-center py-4">Transaction not found on {network.name}.</p>
+          ) : (
+            <div>
+              <Row label="Block">{transaction.blockNumber?.toString() ?? "Pending"}</Row>
+              <Row label="From">
+                <Link href={`/wallet/${transaction.from}`} className="hover:text-primary">{transaction.from}</Link>
+              </Row>
+              <Row label="To">{transaction.to ?? "Contract creation"}</Row>
+              {faucetTransfers.map((transfer) => (
+                <Row key={transfer.logIndex} label="Faucet payout">
+                  <span className="text-green-500">
+                    {formatUnits(transfer.args.value, network.usdcDecimals)} USDC
+                  </span>{" "}
+                  to{" "}
+                  <Link href={`/wallet/${transfer.args.to}`} className="hover:text-primary">{transfer.args.to}</Link>
+                </Row>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { getAddress, isAddress } from "viem";
+import { Clock, Download, ExternalLink, Wallet } from "lucide-react";
+import type { ClaimHistory } from "@shared/schema";
+import { maxClaimTotalUnits } from "@shared/network";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { network } from "@/config";
+import { useFaucetAccount } from "@/hooks/use-faucet-account";
+import { useLiveFeed } from "@/hooks/use-live-feed";
+import { queryClient } from "@/lib/queryClient";
+import { formatUSDC } from "@/lib/format";
+
+const MAX_CLAIM_LIMIT = maxClaimTotalUnits(network);
+
+/** Dates arrive as ISO strings once they have been through JSON. */
+type ClaimRow = Omit<ClaimHistory, "claimedAt"> & { claimedAt: string };
+
+/** Ticks once a second until `until` has passed, then stops. */
+function useNow(until: Date | undefined) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!until || until.getTime() <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until?.getTime()]);
+  return now;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+function StatCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+export default function WalletPage({ address }: { address: string }) {
+  const valid = isAddress(address, { strict: false });
+  const account = valid ? getAddress(address) : undefined;
+
+  const { totalClaimed, remainingAllowance, nextClaimAt, balance, isLoading: isLoadingAccount } = useFaucetAccount(account);
+  const now = useNow(nextClaimAt);
+
+  const historyKey = `/api/claim-history/${address}`;
+  const { data: claims, isLoading } = useQuery<ClaimRow[]>({
+    queryKey: [historyKey],
+    enabled: valid,
+  });
+
+  useLiveFeed({
+    onClaim: (claim) => {
+      if (account && claim.walletAddress.toLowerCase() === account.toLowerCase()) {
+        queryClient.invalidateQueries({ queryKey: [historyKey] });
+      }
+    },
+  });
+
+  if (!account) {
+    return (
+      <Alert className="bg-red-500/10 border-red-500/50">
+        <AlertTitle className="text-red-500">Invalid address</AlertTitle>
+        <AlertDescription className="text-red-400 font-mono break-all">{address}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const total = (claims ?? []).reduce((sum, claim) => sum + parseFloat(claim.amount), 0);
+  const claimedPercent = totalClaimed !== undefined ? Number((totalClaimed * BigInt(100)) / MAX_CLAIM_LIMIT) : 0;
+  const reachedLimit = totalClaimed !== undefined && totalClaimed >= MAX_CLAIM_LIMIT;
+  const waitMs = nextClaimAt ? nextClaimAt.getTime() - now : 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="text-2xl font-bold tracking-tighter flex items-center gap-2">
+            <Wallet className="w-6 h-6 text-primary" /> Wallet
+          </h2>
+          <p className="text-xs text-muted-foreground font-mono break-all" data-testid="text-wallet-page-address">{account}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <a href={`${network.explorerUrl}/address/${account}`} target="_blank" rel="noopener noreferrer">
+            <Button variant="outline" size="sm" className="text-xs">
+              <ExternalLink className="w-3 h-3 mr-1" /> Explorer
+            </Button>
+          </a>
+          <a href={`/api/claim-history/${address}/export?format=csv`} download>
+            <Button variant="outline" size="sm" className="text-xs" data-testid="button-wallet-download">
+              <Download className="w-3 h-3 mr-1" /> Download history
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard title="USDC Balance">
+          <div className="text-2xl font-bold font-mono text-green-400" data-testid="text-wallet-page-balance">
+            {isLoadingAccount ? "..." : `${formatUSDC(balance)} USDC`}
+          </div>
+        </StatCard>
+        <StatCard title="Total Claimed">
+          <div className="text-2xl font-bold font-mono" data-testid="text-wallet-page-claimed">
+            {isLoadingAccount ? "..." : `${formatUSDC(totalClaimed)} USDC`}
+          </div>
+          <Progress value={Math.min(claimedPercent, 100)} className="h-1 mt-2" />
+          <p className="text-xs text-muted-foreground mt-1">of {formatUSDC(MAX_CLAIM_LIMIT)} USDC limit</p>
+        </StatCard>
+        <StatCard title="Remaining Allowance">
+          <div className="text-2xl font-bold font-mono" data-testid="text-wallet-page-remaining">
+            {isLoadingAccount ? "..." : `${formatUSDC(remainingAllowance)} USDC`}
+          </div>
+        </StatCard>
+        <StatCard title="Next Claim">
+          <div className="text-2xl font-bold font-mono flex items-center gap-2" data-testid="text-wallet-page-next-claim">
+            <Clock className="w-5 h-5 text-primary" />
+            {isLoadingAccount || !nextClaimAt
+              ? "..."
+              : reachedLimit
+                ? "Limit reached"
+                : waitMs > 0
+                  ? formatCountdown(waitMs)
+                  : "Now"}
+          </div>
+          {nextClaimAt && !reachedLimit && waitMs > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">{format(nextClaimAt, "MMM d, yyyy HH:mm:ss")}</p>
+          )}
+        </StatCard>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">
+            Claim timeline: {claims?.length ?? 0} claims ({total.toFixed(2)} USDC)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground text-center py-4">Loading...</p>
+          ) : !claims || claims.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-4">No claims recorded for this wallet.</p>
+          ) : (
+            <ol className="relative border-l border-primary/20 ml-2 space-y-4">
+              {claims.map((claim) => (
+                <li key={claim.id} className="ml-4 text-xs" data-testid={`row-wallet-claim-${claim.id}`}>
+                  <span className="absolute -left-1.5 mt-1 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-green-500 font-bold">{parseFloat(claim.amount).toFixed(2)} USDC</span>
+                    <span className="text-muted-foreground" title={format(new Date(claim.claimedAt), "MMM d, yyyy HH:mm:ss")}>
+                      {formatDistanceToNow(new Date(claim.claimedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {claim.transactionHash ? (
+                    <div className="flex items-center gap-3 mt-1 font-mono">
+                      <Link href={`/tx/${claim.transactionHash}`} className="hover:text-primary">
+                        {claim.transactionHash.slice(0, 10)}...{claim.transactionHash.slice(-8)}
+                      </Link>
+                      <a
+                        href={`${network.explorerUrl}/tx/${claim.transactionHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground flex items-center gap-1"
+                      >
+                        <ExternalLink className="w-3 h-3" /> Explorer
+                      </a>
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-muted-foreground">No transaction recorded</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import { createMinerWorkerLoop, type MinerWorkerMessage, type MinerWorkerRequest } from "@shared/pow";
+
+const handle = createMinerWorkerLoop(
+  (message: MinerWorkerMessage) => self.postMessage(message),
+  (batch) => setTimeout(batch, 0),
+);
+
+self.onmessage = (event: MessageEvent<MinerWorkerRequest>) => handle(event.data);
@@ -0,0 +1,365 @@
+/**
+ * Headless miner for scripted runs. Signs in with a private key, runs mining
+ * sessions against the server's Stratum pool with the same keccak256 work as
+ * the browser, prints the mining console's log lines to stderr and finishes
+ * with a JSON summary on stdout (exit code 0 when every session completed).
+ *
+ *   MINER_PRIVATE_KEY=0x... npx tsx script/miner.ts --server http://localhost:5000 --device both --sessions 2 --speed 60
+ *
+ * `--speed` needs a server started with `MINING_MAX_SPEED` at least as high.
+ */
+import { availableParallelism } from "os";
+import { parseArgs } from "util";
+import { isMainThread, parentPort, Worker } from "worker_threads";
+import WebSocket from "ws";
+import { isHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import {
+  createMinerWorkerLoop,
+  difficultyToTarget,
+  formatHashrate,
+  minerWorkerCount,
+  type FoundNonce,
+  type MinerWorkerMessage,
+  type MinerWorkerRequest,
+} from "../shared/pow";
+import { STRATUM_PATH, StratumClient, type StratumJob } from "../shared/stratum";
+import type { MiningSessionView } from "../shared/schema";
+import { describeMiningEvent, MiningEngine } from "../shared/mining-engine";
+import { loadNetworkProfile } from "../server/network";
+
+const HASHRATE_LOG_MS = 10000;
+const TICK_MS = 250;
+const DEVICES = ["cpu", "gpu", "both"] as const;
+
+type Device = (typeof DEVICES)[number];
+type LogType = "block" | "share" | "info" | "reward";
+
+interface SessionSummary {
+  id: string;
+  status: MiningSessionView["status"];
+  durationMs: number;
+  sharesFound: number;
+  blocksFound: number;
+  sharesRejected: number;
+}
+
+// the browser worker's loop, on worker_threads
+function runWorker() {
+  const handle = createMinerWorkerLoop(
+    (message) => parentPort!.postMessage(message),
+    (batch) => setImmediate(batch),
+  );
+  parentPort!.on("message", handle);
+}
+
+// workers do not inherit tsx's loader, so they register it before loading this file
+const WORKER_BOOTSTRAP = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(import.meta.url)}); });`;
+
+/** The CLI's `PowMiner`: the same nonce striding, with workers kept alive between jobs. */
+class ThreadMiner {
+  private workers: Worker[];
+  private rates: number[];
+  hashes = 0;
+
+  constructor(
+    count: number,
+    private handlers: { onShare: (share: FoundNonce) => void; onHashrate: (hashesPerSecond: number) => void },
+  ) {
+    this.rates = new Array(count).fill(0);
+    this.workers = this.rates.map((_, index) => {
+      const worker = new Worker(WORKER_BOOTSTRAP, { eval: true });
+      worker.on("message", (message: MinerWorkerMessage) => this.handle(index, message));
+      worker.on("error", (error) => log("info", `Worker ${index} failed: ${error.message}`));
+      return worker;
+    });
+  }
+
+  start(job: StratumJob) {
+    const shareTarget = difficultyToTarget(job.shareDifficulty);
+    const blockTarget = difficultyToTarget(job.blockDifficulty);
+    this.workers.forEach((worker, index) => {
+      const request: MinerWorkerRequest = {
+        type: "start",
+        seed: job.seed,
+        shareTarget,
+        blockTarget,
+        startNonce: index,
+        stride: this.workers.length,
+      };
+      worker.postMessage(request);
+    });
+  }
+
+  stop() {
+    this.workers.forEach((worker) => worker.postMessage({ type: "stop" } satisfies MinerWorkerRequest));
+    this.rates.fill(0);
+    this.handlers.onHashrate(0);
+  }
+
+  async close() {
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+  }
+
+  private handle(index: number, message: MinerWorkerMessage) {
+    if (message.type === "share") {
+      this.handlers.onShare({ nonce: message.nonce, hash: message.hash, block: message.block });
+      return;
+    }
+    this.hashes += message.count;
+    this.rates[index] = (message.count / message.elapsedMs) * 1000;
+    this.handlers.onHashrate(this.rates.reduce((total, rate) => total + rate, 0));
+  }
+}
+
+/** Just enough of a cookie jar to hold the server's session cookie. */
+class ApiClient {
+  private cookie = "";
+
+  constructor(private baseUrl: URL) {}
+
+  /** Headers that carry the session to requests made outside `request`, such as the Stratum upgrade. */
+  get sessionHeaders(): Record<string, string> {
+    return this.cookie ? { Cookie: this.cookie } : {};
+  }
+
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(new URL(path, this.baseUrl), {
+      method,
+      headers: {
+        ...(body ? { "Content-Type": "application/json" } : {}),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    if (!res.ok) throw new ApiError(res.status, `${res.status}: ${(await res.text()) || res.statusText}`);
+    return (await res.json()) as T;
+  }
+}
+
+class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function log(type: LogType, message: string) {
+  const timestamp = new Date().toLocaleTimeString("en-US", { hour12: false });
+  process.stderr.write(`[${timestamp}] ${type.padEnd(6)} ${message}\n`);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function usage(): never {
+  process.stderr.write(
+    [
+      "Usage: MINER_PRIVATE_KEY=0x... npx tsx script/miner.ts [options]",
+      "",
+      "  --server <url>     server to mine against (default http://localhost:5000)",
+      "  --private-key <0x> wallet key, instead of MINER_PRIVATE_KEY",
+      "  --device <name>    cpu, gpu or both, like the console's toggles (default cpu)",
+      "  --sessions <n>     sessions to run back to back (default 1)",
+      "  --speed <x>        run sessions x times faster (default 1)",
+      "",
+    ].join("\n"),
+  );
+  process.exit(2);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      server: { type: "string", default: "http://localhost:5000" },
+      "private-key": { type: "string" },
+      device: { type: "string", default: "cpu" },
+      sessions: { type: "string", default: "1" },
+      speed: { type: "string", default: "1" },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) usage();
+
+  const privateKey = values["private-key"] ?? process.env.MINER_PRIVATE_KEY;
+  const device = values.device as Device;
+  const sessionCount = parseInt(values.sessions!, 10);
+  const speed = parseFloat(values.speed!);
+  if (!privateKey || !isHex(privateKey) || !DEVICES.includes(device) || !(sessionCount >= 1) || !(speed >= 1)) {
+    usage();
+  }
+
+  const server = new URL(values.server!);
+  const network = loadNetworkProfile();
+  const account = privateKeyToAccount(privateKey);
+  const api = new ApiClient(server);
+  // the server keeps the authoritative session; the engine times it locally and words the log
+  const engine = new MiningEngine({ reward: parseFloat(network.claimAmount) });
+  engine.subscribe((event) => {
+    const line = describeMiningEvent(event, engine.reward);
+    if (line) log(line.type, line.message);
+  });
+  const workerCount = minerWorkerCount({ cpu: device !== "gpu", gpu: device !== "cpu" }, availableParallelism());
+  const startedAt = Date.now();
+  const sessions: SessionSummary[] = [];
+
+  let miner: ThreadMiner | undefined;
+  let pool: StratumClient | undefined;
+  let current: SessionSummary | null = null;
+  let job: StratumJob | null = null;
+  let hashRate = 0;
+  let miningMs = 0;
+  let finished = false;
+
+  const summary = (ok: boolean, error?: string) => ({
+    ok,
+    ...(error ? { error } : {}),
+    server: server.origin,
+    wallet: account.address,
+    device,
+    workers: workerCount,
+    speed,
+    sessions,
+    sharesFound: sessions.reduce((total, session) => total + session.sharesFound, 0),
+    blocksFound: sessions.reduce((total, session) => total + session.blocksFound, 0),
+    sharesRejected: sessions.reduce((total, session) => total + session.sharesRejected, 0),
+    hashes: miner?.hashes ?? 0,
+    averageHashrate: miningMs > 0 ? Math.round(((miner?.hashes ?? 0) / miningMs) * 1000) : 0,
+    elapsedMs: Date.now() - startedAt,
+  });
+
+  const finish = async (ok: boolean, error?: string) => {
+    if (finished) return;
+    finished = true;
+    pool?.close();
+    await miner?.close();
+    process.stdout.write(`${JSON.stringify(summary(ok, error))}\n`);
+    process.exit(ok ? 0 : 1);
+  };
+
+  process.once("SIGINT", () => {
+    log("info", "Interrupted, stopping the session");
+    const stop = current ? api.request("POST", "/api/sessions", { action: "stop" }).catch(() => {}) : Promise.resolve();
+    stop.then(() => finish(false, "Interrupted"));
+  });
+
+  try {
+    log("info", `Connecting to ${server.origin}...`);
+    const { nonce } = await api.request<{ nonce: string }>("GET", "/api/auth/nonce");
+    const message = createSiweMessage({
+      address: account.address,
+      chainId: network.chainId,
+      domain: server.host,
+      nonce,
+      uri: server.origin,
+      version: "1",
+      statement: "Sign in to ArcMiner.",
+    });
+    await api.request("POST", "/api/auth/verify", { message, signature: await account.signMessage({ message }) });
+    log("info", `Signed in as ${account.address}`);
+
+    miner = new ThreadMiner(workerCount, {
+      onHashrate: (rate) => (hashRate = rate),
+      onShare: (share) => {
+        const session = current;
+        if (!session || !job || !pool) return;
+        pool
+          .submit(account.address, job.id, share.nonce)
+          .then(() => {
+            session.sharesFound += 1;
+            if (share.block) session.blocksFound += 1;
+            engine.recordShare(share);
+          })
+          .catch((error) => {
+            session.sharesRejected += 1;
+            log("info", `Share rejected: ${error.message}`);
+          });
+      },
+    });
+
+    for (let index = 0; index < sessionCount; index++) {
+      let view: MiningSessionView;
+      try {
+        view = await api.request<MiningSessionView>("POST", "/api/sessions", { action: "start", speed });
+      } catch (error) {
+        if (!(error instanceof ApiError && error.status === 409)) throw error;
+        // left open by an earlier run
+        await api.request("POST", "/api/sessions", { action: "stop" });
+        log("info", "Stopped the wallet's previous session");
+        view = await api.request<MiningSessionView>("POST", "/api/sessions", { action: "start", speed });
+      }
+      const session: SessionSummary = {
+        id: view.id,
+        status: view.status,
+        durationMs: view.durationMs,
+        sharesFound: 0,
+        blocksFound: 0,
+        sharesRejected: 0,
+      };
+      sessions.push(session);
+      current = session;
+
+      if (!pool) {
+        // the pool only lets the connection authorize as the wallet signed in on its cookie
+        const socket = new WebSocket(new URL(STRATUM_PATH, server.href.replace(/^http/, "ws")).href, {
+          headers: api.sessionHeaders,
+        });
+        pool = new StratumClient(socket, {
+          onJob: (next) => {
+            if (job && current) log("info", `New job, share difficulty ${next.shareDifficulty.toLocaleString("en-US")}`);
+            job = next;
+            if (current) miner!.start(next);
+          },
+          onMessage: (text) => {
+            if (current) log("info", `Pool: ${text}`);
+          },
+          onClose: () => {
+            if (current) finish(false, "Mining pool connection closed");
+          },
+        });
+        await pool.subscribe("arcminer-cli");
+        await pool.authorize(account.address);
+        log("info", "Connection established successfully");
+      } else {
+        // authorizing again makes the pool issue a job for the new session right away
+        await pool.authorize(account.address);
+      }
+      log("info", `Mining started with ${device.toUpperCase()} (${workerCount} worker${workerCount === 1 ? "" : "s"}), session ${index + 1} of ${sessionCount}`);
+
+      // a completed session is not claimed here, so it is set aside before the next one
+      if (engine.state.status === "completed") engine.stop();
+      engine.start(view.durationMs);
+      const runningSince = Date.now();
+      const hashrateTimer = setInterval(() => log("info", `Hashrate: ${formatHashrate(hashRate)}`), HASHRATE_LOG_MS);
+      while (engine.state.status === "mining") {
+        await sleep(TICK_MS);
+        engine.tick();
+      }
+      clearInterval(hashrateTimer);
+      miner.stop();
+      miningMs += Date.now() - runningSince;
+
+      const completed = await api.request<MiningSessionView>("POST", "/api/sessions", { action: "complete" });
+      current = null;
+      session.status = completed.status;
+      session.sharesFound = completed.sharesFound;
+      session.blocksFound = completed.blocksFound;
+    }
+
+    await finish(true);
+  } catch (error: any) {
+    log("info", `Failed: ${error.message}`);
+    await finish(false, error.message);
+  }
+}
+
+if (isMainThread) {
+  main();
+} else {
+  runWorker();
+}
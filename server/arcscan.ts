@@ -0,0 +1,209 @@
+import type { Address } from "viem";
+import { z } from "zod";
+
+export const arcscanTokenTransferSchema = z.object({
+  hash: z.string(),
+  blockNumber: z.string(),
+  timeStamp: z.string(),
+  from: z.string(),
+  to: z.string(),
+  value: z.string(),
+  contractAddress: z.string().default(""),
+  tokenSymbol: z.string().optional(),
+  tokenDecimal: z.string().default("6"),
+});
+
+export type ArcscanTokenTransfer = z.infer<typeof arcscanTokenTransferSchema>;
+
+const arcscanResponseSchema = z.object({
+  status: z.string(),
+  message: z.string().optional(),
+  result: z.unknown(),
+});
+
+export class ArcscanError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = "ArcscanError";
+  }
+}
+
+export class ArcscanCircuitOpenError extends ArcscanError {
+  constructor(public readonly retryAt: Date) {
+    super(`Arcscan circuit open until ${retryAt.toISOString()}`);
+    this.name = "ArcscanCircuitOpenError";
+  }
+}
+
+export interface ArcscanClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  failureThreshold?: number;
+  circuitResetMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface TokenTransfersQuery {
+  address: string;
+  token?: string;
+  page?: number;
+  offset?: number;
+  startBlock?: number;
+  sort?: "asc" | "desc";
+}
+
+export interface ClaimFilter {
+  faucetAddress: Address;
+  tokenAddress: Address;
+  tokenDecimals: number;
+  claimAmount: bigint;
+}
+
+/** True for a transfer of exactly one claim's worth of the token out of the faucet. */
+export function isFaucetClaim(transfer: ArcscanTokenTransfer, filter: ClaimFilter): boolean {
+  try {
+    return transfer.from.toLowerCase() === filter.faucetAddress.toLowerCase() &&
+      transfer.contractAddress.toLowerCase() === filter.tokenAddress.toLowerCase() &&
+      BigInt(transfer.value) === filter.claimAmount;
+  } catch {
+    return false;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Typed client for the Etherscan-compatible Arcscan API.
+ *
+ * Failed requests are retried with exponential backoff when the failure is a
+ * timeout, a network error or a 5xx. After `failureThreshold` consecutive
+ * failed calls the circuit opens and calls fail fast until `circuitResetMs`
+ * has passed; the next call is then let through as the one probe, and the
+ * rest keep failing fast until it has succeeded or reopened the circuit.
+ */
+export class ArcscanClient {
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private failureThreshold: number;
+  private circuitResetMs: number;
+  private fetchImpl: typeof fetch;
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(private options: ArcscanClientOptions) {
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.circuitResetMs = options.circuitResetMs ?? 60000;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  get circuitOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  async getTokenTransfers(query: TokenTransfersQuery): Promise<ArcscanTokenTransfer[]> {
+    const params: Record<string, string> = {
+      module: "account",
+      action: "tokentx",
+      address: query.address,
+      page: String(query.page ?? 1),
+      offset: String(query.offset ?? 100),
+      sort: query.sort ?? "desc",
+    };
+    if (query.token) params.contractaddress = query.token;
+    if (query.startBlock !== undefined) params.startblock = String(query.startBlock);
+
+    const result = z.array(arcscanTokenTransferSchema).safeParse(await this.request(params));
+    if (!result.success) {
+      throw new ArcscanError(`Arcscan returned malformed token transfers: ${result.error.message}`);
+    }
+    return result.data;
+  }
+
+  private async request(params: Record<string, string>): Promise<unknown> {
+    if (this.circuitOpen) {
+      throw new ArcscanCircuitOpenError(new Date(this.openUntil));
+    }
+    // past the reset the circuit is half-open: only one call finds out whether Arcscan is back
+    const probe = this.consecutiveFailures >= this.failureThreshold;
+    if (probe && this.probing) {
+      throw new ArcscanCircuitOpenError(new Date());
+    }
+    if (probe) this.probing = true;
+
+    try {
+      const result = await this.requestWithRetries(params);
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      this.consecutiveFailures += 1;
+      if (this.consecutiveFailures >= this.failureThreshold) {
+        this.openUntil = Date.now() + this.circuitResetMs;
+      }
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  private async requestWithRetries(params: Record<string, string>): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(params);
+      } catch (error) {
+        const retryable = error instanceof ArcscanError && error.retryable;
+        if (!retryable || attempt >= this.maxRetries) throw error;
+        await sleep(this.retryBaseDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  private async send(params: Record<string, string>): Promise<unknown> {
+    const url = new URL(this.options.baseUrl);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    if (this.options.apiKey) url.searchParams.set("apikey", this.options.apiKey);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error: any) {
+      const reason = error?.name === "TimeoutError" ? "timed out" : error?.message ?? "network error";
+      throw new ArcscanError(`Arcscan request ${reason}`, true);
+    }
+
+    if (!response.ok) {
+      throw new ArcscanError(`Arcscan responded with ${response.status}`, response.status >= 500);
+    }
+
+    const body = arcscanResponseSchema.safeParse(await response.json());
+    if (!body.success) {
+      throw new ArcscanError("Arcscan returned an unexpected response shape");
+    }
+
+    const { status, message, result } = body.data;
+    if (status === "1") return result;
+
+    // "No transactions found" comes back as status "0" with an empty result
+    if (Array.isArray(result) && result.length === 0) return result;
+    throw new ArcscanError(`Arcscan error: ${typeof result === "string" ? result : message ?? "unknown"}`);
+  }
+}
+
+export function createArcscanClientFromEnv(baseUrl: string): ArcscanClient {
+  return new ArcscanClient({
+    baseUrl,
+    apiKey: process.env.ARCSCAN_API_KEY,
+  });
+}
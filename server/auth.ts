@@ -0,0 +1,209 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { getAddress, isAddressEqual, isHex, type Address } from "viem";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { db } from "./db";
+import { network } from "./network";
+import { createChainClient } from "./chain";
+
+declare module "express-session" {
+  interface SessionData {
+    nonce?: string;
+    /** Written by passport's `serializeUser`. */
+    passport?: { user?: Address };
+  }
+}
+
+declare global {
+  namespace Express {
+    interface User {
+      address: Address;
+    }
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function createSessionStore(): session.Store {
+  if (db) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: db.$client, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // sessions will not survive a restart, which is fine for development
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Express's "trust proxy" from `TRUST_PROXY`: a hop count such as `1`, or the
+ * proxy addresses. Off by default, since a client reaching the app directly
+ * could otherwise pick its own `req.ip` with X-Forwarded-For.
+ */
+function trustProxy(): number | string | false {
+  const value = process.env.TRUST_PROXY;
+  if (!value) return false;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+/** The wallet signed in on a raw request, for WebSocket upgrades that never pass through Express. */
+export type SessionWalletResolver = (req: IncomingMessage) => Promise<Address | null>;
+
+/**
+ * Sign-In With Ethereum (EIP-4361). The client fetches a nonce, signs a SIWE
+ * message with the connected wallet and posts it back; the message fields
+ * ride on passport-local's username/password slots. Returns a resolver for the
+ * session's wallet on requests Express never sees.
+ */
+export function setupAuth(app: Express, limiter: RequestHandler): SessionWalletResolver {
+  const chainClient = createChainClient(network.rpcUrl);
+
+  const sessionMiddleware = session({
+    secret: sessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+
+  app.set("trust proxy", trustProxy());
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    "siwe",
+    new LocalStrategy(
+      { usernameField: "message", passwordField: "signature", passReqToCallback: true },
+      async (req, message, signature, done) => {
+        try {
+          const nonce = req.session.nonce;
+          const parsed = parseSiweMessage(message);
+
+          if (!nonce || !parsed.address || !isHex(signature)) {
+            return done(null, false, { message: "Missing nonce, address or signature" });
+          }
+          if (parsed.chainId !== network.chainId) {
+            return done(null, false, { message: `Message must be signed for chain ${network.chainId}` });
+          }
+
+          const valid = await chainClient.verifySiweMessage({
+            message,
+            signature,
+            nonce,
+            domain: req.get("host"),
+          });
+          if (!valid) {
+            return done(null, false, { message: "Invalid or expired SIWE message" });
+          }
+
+          delete req.session.nonce;
+          return done(null, { address: getAddress(parsed.address) });
+        } catch (error) {
+          return done(error);
+        }
+      },
+    ),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.address));
+  passport.deserializeUser((address: Address, done) => done(null, { address }));
+
+  app.use("/api/auth", limiter);
+
+  app.get("/api/auth/nonce", (req, res) => {
+    const nonce = generateSiweNonce();
+    req.session.nonce = nonce;
+    req.session.save((err) => {
+      if (err) {
+        res.status(500).json({ error: "Could not start a session" });
+        return;
+      }
+      res.json({ nonce });
+    });
+  });
+
+  app.post("/api/auth/verify", (req, res, next) => {
+    passport.authenticate("siwe", (err: unknown, user: Express.User | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        res.status(401).json({ error: info?.message ?? "Sign-in failed" });
+        return;
+      }
+      req.logIn(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Not signed in" });
+      return;
+    }
+    res.json(req.user);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ ok: true });
+    });
+  });
+
+  return (req) =>
+    new Promise((resolve, reject) => {
+      // the session only reads the cookie here; nothing is written back on an upgrade
+      sessionMiddleware(req as Request, {} as Response, (err?: unknown) => {
+        if (err) return reject(err);
+        const address = (req as Request).session?.passport?.user;
+        resolve(address ? getAddress(address) : null);
+      });
+    });
+}
+
+/** Rejects requests without a signed-in wallet. */
+export function requireWallet(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    res.status(401).json({ error: "Sign in with your wallet first" });
+    return;
+  }
+  next();
+}
+
+function adminWallets(): Address[] {
+  return (process.env.ADMIN_WALLETS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => /^0x[0-9a-fA-F]{40}$/.test(entry)) as Address[];
+}
+
+/** Rejects requests unless the signed-in wallet is listed in `ADMIN_WALLETS`. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  requireWallet(req, res, () => {
+    if (adminWallets().some((admin) => isAddressEqual(admin, req.user!.address))) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: "Admin access required" });
+  });
+}
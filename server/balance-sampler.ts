@@ -0,0 +1,70 @@
+import { erc20Abi, formatUnits, type Address, type PublicClient } from "viem";
+import type { IStorage } from "./storage";
+import { createChainClient } from "./chain";
+
+export interface BalanceSamplerOptions {
+  rpcUrl: string;
+  faucetAddress: Address;
+  tokenAddress: Address;
+  tokenDecimals: number;
+  intervalMs: number;
+  /** Called with each sampled balance in whole tokens. */
+  onSample?: (balance: number) => void;
+}
+
+/**
+ * Records the faucet's token balance at a fixed interval so the analytics
+ * page can chart how fast it drains and when it was topped up.
+ */
+export class FaucetBalanceSampler {
+  private client: PublicClient;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private storage: IStorage,
+    private options: BalanceSamplerOptions,
+  ) {
+    this.client = createChainClient(options.rpcUrl);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.sample().catch((error) => console.error("Faucet balance sample failed:", error));
+    this.timer = setInterval(() => {
+      this.sample().catch((error) => console.error("Faucet balance sample failed:", error));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sample(): Promise<void> {
+    const balance = await this.client.readContract({
+      address: this.options.tokenAddress,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [this.options.faucetAddress],
+    });
+    const tokens = Number(formatUnits(balance, this.options.tokenDecimals));
+    await this.storage.saveFaucetBalance(tokens.toFixed(6), new Date());
+    this.options.onSample?.(tokens);
+  }
+}
+
+/**
+ * Builds a sampler from `FAUCET_BALANCE_SAMPLE_MS` (default every ten
+ * minutes); `0` turns sampling off.
+ */
+export function createBalanceSamplerFromEnv(
+  storage: IStorage,
+  defaults: Omit<BalanceSamplerOptions, "intervalMs">,
+): FaucetBalanceSampler | null {
+  const intervalMs = parseInt(process.env.FAUCET_BALANCE_SAMPLE_MS || "600000", 10);
+  if (!(intervalMs > 0)) return null;
+  return new FaucetBalanceSampler(storage, { ...defaults, intervalMs });
+}
@@ -0,0 +1,93 @@
+export interface CachedResult<T> {
+  value: T;
+  fetchedAt: Date;
+  stale: boolean;
+}
+
+export interface SwrCacheOptions {
+  /** How long a value is served as fresh. */
+  ttlMs: number;
+  /** How long past the TTL a value may still be served while it revalidates. */
+  maxStaleMs: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+/**
+ * Stale-while-revalidate cache for upstream-derived data.
+ *
+ * Fresh values are returned as-is. Values past their TTL are returned marked
+ * `stale` while a single background refresh runs; values past `maxStaleMs`
+ * wait for the refresh. Concurrent misses for a key share one loader call,
+ * and a failed refresh falls back to the last value when there is one.
+ */
+export class SwrCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<CacheEntry>>();
+  // bumped by invalidate() so a load that started before it cannot store its result
+  private generations = new Map<string, number>();
+
+  constructor(private options: SwrCacheOptions) {}
+
+  async get<T>(key: string, loader: () => Promise<T>): Promise<CachedResult<T>> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < this.options.ttlMs) {
+      return this.result<T>(entry, false);
+    }
+
+    if (entry && age < this.options.ttlMs + this.options.maxStaleMs) {
+      this.revalidate(key, loader).catch((error) => {
+        console.error(`Background refresh of ${key} failed:`, error);
+      });
+      return this.result<T>(entry, true);
+    }
+
+    try {
+      return this.result<T>(await this.revalidate(key, loader), false);
+    } catch (error) {
+      if (entry) return this.result<T>(entry, true);
+      throw error;
+    }
+  }
+
+  /** Forgets the value; loads already running still answer their callers but are not stored. */
+  invalidate(key: string) {
+    this.entries.delete(key);
+    this.inflight.delete(key);
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+  }
+
+  private revalidate<T>(key: string, loader: () => Promise<T>): Promise<CacheEntry> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing;
+
+    const generation = this.generations.get(key) ?? 0;
+    const pending: Promise<CacheEntry> = loader()
+      .then((value) => {
+        const entry = { value, fetchedAt: Date.now() };
+        if ((this.generations.get(key) ?? 0) === generation) this.entries.set(key, entry);
+        return entry;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === pending) this.inflight.delete(key);
+      });
+    this.inflight.set(key, pending);
+    return pending;
+  }
+
+  private result<T>(entry: CacheEntry, stale: boolean): CachedResult<T> {
+    return { value: entry.value as T, fetchedAt: new Date(entry.fetchedAt), stale };
+  }
+}
+
+export function createExplorerCacheFromEnv(): SwrCache {
+  return new SwrCache({
+    ttlMs: parseInt(process.env.EXPLORER_CACHE_TTL_MS || "30000", 10),
+    maxStaleMs: parseInt(process.env.EXPLORER_CACHE_MAX_STALE_MS || "300000", 10),
+  });
+}
@@ -0,0 +1,11 @@
+import { createPublicClient, http, parseAbiItem, toFunctionSelector, type PublicClient } from "viem";
+
+export const TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+);
+
+export const CLAIM_SELECTOR = toFunctionSelector("function claim()");
+
+export function createChainClient(rpcUrl: string): PublicClient {
+  return createPublicClient({ transport: http(rpcUrl) });
+}
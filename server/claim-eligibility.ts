@@ -0,0 +1,74 @@
+import type { Address } from "viem";
+import type { ClaimEligibility, ClaimSource } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isFaucetClaim, type ArcscanClient, type ClaimFilter } from "./arcscan";
+
+export interface ClaimEligibilityOptions extends ClaimFilter {
+  cooldownMs: number;
+}
+
+interface LastClaim {
+  claimedAt: Date;
+  transactionHash: string | null;
+  source: ClaimSource;
+}
+
+/**
+ * Works out a wallet's claim cooldown from its most recent real claim, so it
+ * holds across reloads and devices. Saved claims are checked first; without
+ * an `arcscan` client (the indexer already saves every claim) the explorer
+ * is skipped, and an explorer outage falls back to saved claims alone.
+ */
+export class ClaimEligibilityChecker {
+  constructor(
+    private storage: IStorage,
+    private arcscan: ArcscanClient | null,
+    private options: ClaimEligibilityOptions,
+  ) {}
+
+  async check(walletAddress: Address, now = new Date()): Promise<ClaimEligibility> {
+    const candidates = await Promise.all([this.fromStorage(walletAddress), this.fromExplorer(walletAddress)]);
+    const lastClaim = candidates
+      .filter((claim): claim is LastClaim => claim !== null)
+      .sort((a, b) => b.claimedAt.getTime() - a.claimedAt.getTime())[0];
+
+    const unlocksAt = lastClaim ? new Date(lastClaim.claimedAt.getTime() + this.options.cooldownMs) : null;
+    return {
+      walletAddress,
+      eligible: !unlocksAt || unlocksAt <= now,
+      lastClaim: lastClaim
+        ? { claimedAt: lastClaim.claimedAt.toISOString(), transactionHash: lastClaim.transactionHash, source: lastClaim.source }
+        : null,
+      cooldownMs: this.options.cooldownMs,
+      unlocksAt: unlocksAt?.toISOString() ?? null,
+      checkedAt: now.toISOString(),
+    };
+  }
+
+  private async fromStorage(walletAddress: Address): Promise<LastClaim | null> {
+    const [latest] = await this.storage.getClaimHistoryByWallet(walletAddress);
+    return latest ? { claimedAt: latest.claimedAt, transactionHash: latest.transactionHash, source: "storage" } : null;
+  }
+
+  private async fromExplorer(walletAddress: Address): Promise<LastClaim | null> {
+    if (!this.arcscan) return null;
+    try {
+      const transfers = await this.arcscan.getTokenTransfers({
+        address: walletAddress,
+        token: this.options.tokenAddress,
+        page: 1,
+        offset: 100,
+        sort: "desc",
+      });
+      const latest = transfers.find(
+        (tx) => tx.to.toLowerCase() === walletAddress.toLowerCase() && isFaucetClaim(tx, this.options),
+      );
+      return latest
+        ? { claimedAt: new Date(parseInt(latest.timeStamp) * 1000), transactionHash: latest.hash, source: "explorer" }
+        : null;
+    } catch (error) {
+      console.error("Explorer lookup for claim eligibility failed:", error);
+      return null;
+    }
+  }
+}
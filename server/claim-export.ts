@@ -0,0 +1,87 @@
+import type { Response } from "express";
+import type { ClaimHistory } from "@shared/schema";
+import { csvRow } from "@shared/csv";
+
+export const exportFormats = ["csv", "json", "ndjson"] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+const CSV_COLUMNS = ["claimedAt", "walletAddress", "amount", "transactionHash", "blockNumber", "explorerUrl"] as const;
+
+interface ExportedClaim {
+  claimedAt: string;
+  walletAddress: string;
+  amount: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  explorerUrl: string | null;
+}
+
+function toExported(claim: ClaimHistory, explorerUrl: string): ExportedClaim {
+  return {
+    claimedAt: claim.claimedAt.toISOString(),
+    walletAddress: claim.walletAddress,
+    amount: claim.amount,
+    transactionHash: claim.transactionHash,
+    blockNumber: claim.blockNumber,
+    explorerUrl: claim.transactionHash ? `${explorerUrl}/tx/${claim.transactionHash}` : null,
+  };
+}
+
+/**
+ * Streams claims to `res` in the requested format, waiting on the socket
+ * whenever its buffer is full. A failure after the first byte can only be
+ * signalled by cutting the response short.
+ */
+export async function writeClaimExport(
+  res: Response,
+  claims: AsyncIterable<ClaimHistory>,
+  options: { format: ExportFormat; filename: string; explorerUrl: string },
+): Promise<void> {
+  const { format } = options;
+  res.set({
+    "Content-Type": CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="${options.filename}.${format}"`,
+    "Cache-Control": "no-store",
+  });
+
+  const write = async (chunk: string) => {
+    if (res.write(chunk)) return;
+    // a client that goes away mid-export never drains
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        res.off("drain", done);
+        res.off("close", done);
+        resolve();
+      };
+      res.on("drain", done);
+      res.on("close", done);
+    });
+  };
+
+  let first = true;
+  if (format === "csv") await write(csvRow([...CSV_COLUMNS]));
+  if (format === "json") await write("[");
+
+  for await (const claim of claims) {
+    if (res.destroyed) return;
+    const row = toExported(claim, options.explorerUrl);
+    if (format === "csv") {
+      await write(csvRow(CSV_COLUMNS.map((column) => row[column])));
+    } else if (format === "json") {
+      await write(`${first ? "" : ","}\n${JSON.stringify(row)}`);
+    } else {
+      await write(`${JSON.stringify(row)}\n`);
+    }
+    first = false;
+  }
+
+  if (format === "json") await write(first ? "]" : "\n]");
+  res.end();
+}
@@ -0,0 +1,154 @@
+import { formatUnits } from "viem";
+import type { ClaimTotals, ExplorerTotals } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { isFaucetClaim, type ArcscanClient, type ArcscanTokenTransfer, type ClaimFilter } from "./arcscan";
+
+const TOTALS_NAME = "arcscan-faucet-claims";
+
+export interface ClaimTotalsOptions extends ClaimFilter {
+  pageSize?: number;
+  /** Called with the claims a refresh found past the stored high-water mark, and the totals that count them. */
+  onClaims?: (claims: ArcscanTokenTransfer[], totals: ClaimTotals) => void;
+}
+
+function emptyTotals(): ExplorerTotals {
+  return {
+    name: TOTALS_NAME,
+    totalClaimed: "0",
+    claimCount: 0,
+    highWaterBlock: 0,
+    highWaterHashes: [],
+  };
+}
+
+export function formatClaimTotals(totals: ExplorerTotals, decimals: number): ClaimTotals {
+  return {
+    totalClaimed: Number(formatUnits(BigInt(totals.totalClaimed), decimals)).toFixed(2),
+    claimCount: totals.claimCount,
+  };
+}
+
+/**
+ * Keeps a running total of faucet claims from Arcscan `tokentx` results.
+ *
+ * Pages are walked oldest-first from the high-water block. Transfers already
+ * counted at that block are remembered by hash so the overlap is skipped.
+ */
+export class ClaimTotalsTracker {
+  private pageSize: number;
+  private pending: Promise<ExplorerTotals> | null = null;
+
+  constructor(
+    private storage: IStorage,
+    private arcscan: ArcscanClient,
+    private options: ClaimTotalsOptions,
+  ) {
+    this.pageSize = options.pageSize ?? 1000;
+  }
+
+  /** Fetches only the pages past the high-water mark; joins a scan already running. */
+  async refresh(): Promise<ClaimTotals> {
+    const totals =
+      this.pending ??
+      this.exclusive(() =>
+        this.storage
+          .getExplorerTotals(TOTALS_NAME)
+          // a first scan walks the whole history, which is not news to anyone
+          .then((totals) => (totals ? this.scan(totals, this.options.onClaims) : this.scan(emptyTotals()))),
+      );
+    return formatClaimTotals(await totals, this.options.tokenDecimals);
+  }
+
+  /** Discards the stored totals and rebuilds them from the first transfer, once any running scan is done. */
+  async backfill(): Promise<ClaimTotals> {
+    const totals = this.exclusive(async () => {
+      const start = emptyTotals();
+      await this.storage.setExplorerTotals(start);
+      return this.scan(start);
+    });
+    return formatClaimTotals(await totals, this.options.tokenDecimals);
+  }
+
+  async current(): Promise<ClaimTotals | undefined> {
+    const totals = await this.storage.getExplorerTotals(TOTALS_NAME);
+    return totals ? formatClaimTotals(totals, this.options.tokenDecimals) : undefined;
+  }
+
+  /**
+   * Runs `task` after the scan in `pending` and becomes the new `pending`, so
+   * two scans never write the stored totals at the same time.
+   */
+  private exclusive(task: () => Promise<ExplorerTotals>): Promise<ExplorerTotals> {
+    const previous = this.pending?.catch(() => undefined);
+    const run: Promise<ExplorerTotals> = Promise.resolve(previous)
+      .then(task)
+      .finally(() => {
+        if (this.pending === run) this.pending = null;
+      });
+    this.pending = run;
+    return run;
+  }
+
+  private async scan(
+    start: ExplorerTotals,
+    onClaims?: ClaimTotalsOptions["onClaims"],
+  ): Promise<ExplorerTotals> {
+    let totals = start;
+
+    while (true) {
+      const rows = await this.arcscan.getTokenTransfers({
+        address: this.options.faucetAddress,
+        startBlock: totals.highWaterBlock,
+        offset: this.pageSize,
+        sort: "asc",
+      });
+      const seen = new Set(totals.highWaterHashes);
+      let total = BigInt(totals.totalClaimed);
+      let claimCount = totals.claimCount;
+      let highWaterBlock = totals.highWaterBlock;
+      let highWaterHashes = totals.highWaterHashes;
+      let added = 0;
+      const claims: ArcscanTokenTransfer[] = [];
+
+      for (const row of rows) {
+        const hash = row.hash.toLowerCase();
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+        added += 1;
+
+        if (isFaucetClaim(row, this.options)) {
+          total += BigInt(row.value);
+          claimCount += 1;
+          claims.push(row);
+        }
+
+        const blockNumber = parseInt(row.blockNumber, 10);
+        if (blockNumber > highWaterBlock) {
+          highWaterBlock = blockNumber;
+          highWaterHashes = [];
+        }
+        highWaterHashes = [...highWaterHashes, hash];
+      }
+
+      totals = {
+        name: TOTALS_NAME,
+        totalClaimed: total.toString(),
+        claimCount,
+        highWaterBlock,
+        highWaterHashes,
+      };
+      await this.storage.setExplorerTotals(totals);
+      if (claims.length > 0) onClaims?.(claims, formatClaimTotals(totals, this.options.tokenDecimals));
+
+      if (rows.length < this.pageSize) break;
+      if (added === 0) {
+        // a single block holds more than a page of transfers; the explorer
+        // cannot be walked past it with block cursors alone
+        console.warn(`Arcscan page at block ${highWaterBlock} returned no new transfers, stopping scan`);
+        break;
+      }
+    }
+
+    return totals;
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  formatUnits,
+  isAddressEqual,
+  isHash,
+  parseEventLogs,
+  parseUnits,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+  type PublicClient,
+} from "viem";
+import type { ClaimRejectionReason, InsertClaimHistory } from "@shared/schema";
+import { CLAIM_SELECTOR, createChainClient, TRANSFER_EVENT } from "./chain";
+
+export class ClaimRejectedError extends Error {
+  constructor(
+    public readonly reason: ClaimRejectionReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ClaimRejectedError";
+  }
+}
+
+export interface ClaimVerifierOptions {
+  rpcUrl: string;
+  faucetAddress: Address;
+  tokenAddress: Address;
+  tokenDecimals: number;
+}
+
+export interface VerifiedClaim {
+  walletAddress: Address;
+  amount: string;
+  transactionHash: Hash;
+  blockNumber: number;
+  /** The block's timestamp, so cooldowns and timeseries follow the chain rather than this server's clock. */
+  claimedAt: Date;
+}
+
+/**
+ * Checks a submitted claim against its transaction on chain: the receipt must
+ * show a successful call to the faucet's `claim()` that emitted a token
+ * Transfer of exactly the stated amount from the faucet to the stated wallet.
+ */
+export class ClaimVerifier {
+  private client: PublicClient;
+
+  constructor(private options: ClaimVerifierOptions) {
+    this.client = createChainClient(options.rpcUrl);
+  }
+
+  async verify(claim: InsertClaimHistory): Promise<VerifiedClaim> {
+    const hash = claim.transactionHash;
+    if (!hash || !isHash(hash)) {
+      throw new ClaimRejectedError("invalid_transaction_hash", "A 32-byte transaction hash is required");
+    }
+
+    let expectedAmount: bigint;
+    try {
+      expectedAmount = parseUnits(claim.amount, this.options.tokenDecimals);
+    } catch {
+      throw new ClaimRejectedError("amount_mismatch", `Amount ${claim.amount} is not a valid token amount`);
+    }
+
+    const [transaction, receipt] = await this.fetchTransaction(hash);
+
+    if (receipt.status !== "success") {
+      throw new ClaimRejectedError("transaction_failed", "Transaction reverted");
+    }
+
+    if (!transaction.to || !isAddressEqual(transaction.to, this.options.faucetAddress)) {
+      throw new ClaimRejectedError("not_faucet_transaction", "Transaction was not sent to the faucet contract");
+    }
+
+    if (transaction.input.slice(0, 10).toLowerCase() !== CLAIM_SELECTOR) {
+      throw new ClaimRejectedError("not_claim_call", "Transaction did not call claim()");
+    }
+
+    const transfers = parseEventLogs({
+      abi: [TRANSFER_EVENT],
+      eventName: "Transfer",
+      logs: receipt.logs,
+    }).filter((entry) =>
+      isAddressEqual(entry.address, this.options.tokenAddress) &&
+      isAddressEqual(entry.args.from, this.options.faucetAddress)
+    );
+
+    const toWallet = transfers.filter((entry) => {
+      try {
+        return isAddressEqual(entry.args.to, claim.walletAddress as Address);
+      } catch {
+        return false;
+      }
+    });
+    if (toWallet.length === 0) {
+      throw new ClaimRejectedError("transfer_not_found", "No faucet transfer to this wallet in the transaction");
+    }
+
+    const transfer = toWallet.find((entry) => entry.args.value === expectedAmount);
+    if (!transfer) {
+      const actual = formatUnits(toWallet[0].args.value, this.options.tokenDecimals);
+      throw new ClaimRejectedError("amount_mismatch", `Transaction transferred ${actual}, not ${claim.amount}`);
+    }
+
+    const block = await this.client.getBlock({ blockNumber: receipt.blockNumber });
+
+    return {
+      walletAddress: transfer.args.to,
+      amount: Number(formatUnits(transfer.args.value, this.options.tokenDecimals)).toFixed(this.options.tokenDecimals),
+      transactionHash: hash,
+      blockNumber: Number(receipt.blockNumber),
+      claimedAt: new Date(Number(block.timestamp) * 1000),
+    };
+  }
+
+  private async fetchTransaction(hash: Hash) {
+    try {
+      return await Promise.all([
+        this.client.getTransaction({ hash }),
+        this.client.getTransactionReceipt({ hash }),
+      ]);
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError || error instanceof TransactionReceiptNotFoundError) {
+        throw new ClaimRejectedError("transaction_not_found", "Transaction not found or not yet mined");
+      }
+      throw error;
+    }
+  }
+}
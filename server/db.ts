@@ -0,0 +1,14 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: pg.Pool };
+
+export function createDb(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export const db: Database | null = process.env.DATABASE_URL
+  ? createDb(process.env.DATABASE_URL)
+  : null;
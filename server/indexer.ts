@@ -0,0 +1,171 @@
+import { formatUnits, type Address, type PublicClient } from "viem";
+import type { ClaimHistory, IndexedClaim } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createChainClient, TRANSFER_EVENT } from "./chain";
+
+const CHECKPOINT_NAME = "faucet-transfers";
+
+export interface FaucetIndexerOptions {
+  rpcUrl: string;
+  faucetAddress: Address;
+  tokenAddress: Address;
+  tokenDecimals: number;
+  claimAmount: bigint;
+  startBlock: bigint;
+  batchSize?: bigint;
+  reorgDepth?: bigint;
+  pollIntervalMs?: number;
+  /** Called with claims the indexer stored first, once it has caught up with the head. */
+  onClaims?: (claims: ClaimHistory[]) => void;
+}
+
+export class FaucetIndexer {
+  private client: PublicClient;
+  private batchSize: bigint;
+  private reorgDepth: bigint;
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private caughtUp = false;
+  private blockTimestamps = new Map<bigint, Date>();
+
+  constructor(
+    private storage: IStorage,
+    private options: FaucetIndexerOptions,
+  ) {
+    this.client = createChainClient(options.rpcUrl);
+    this.batchSize = options.batchSize ?? BigInt(2000);
+    this.reorgDepth = options.reorgDepth ?? BigInt(12);
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error("Faucet indexer sync failed:", error);
+      }
+      this.schedule(this.pollIntervalMs);
+    }, delay);
+  }
+
+  /**
+   * Indexes every block between the checkpoint and the current head.
+   * If the checkpointed block is no longer canonical, claims from the last
+   * `reorgDepth` blocks are dropped and those blocks are indexed again.
+   */
+  async sync(): Promise<void> {
+    const head = await this.client.getBlockNumber();
+    let fromBlock = await this.resumeBlock();
+
+    while (fromBlock <= head) {
+      const toBlock = fromBlock + this.batchSize - BigInt(1) < head
+        ? fromBlock + this.batchSize - BigInt(1)
+        : head;
+
+      const logs = await this.client.getLogs({
+        address: this.options.tokenAddress,
+        event: TRANSFER_EVENT,
+        args: { from: this.options.faucetAddress },
+        fromBlock,
+        toBlock,
+      });
+
+      const claims: IndexedClaim[] = [];
+      for (const entry of logs) {
+        if (entry.removed || entry.args.value !== this.options.claimAmount) continue;
+        claims.push({
+          walletAddress: entry.args.to!,
+          amount: Number(formatUnits(entry.args.value, this.options.tokenDecimals)).toFixed(this.options.tokenDecimals),
+          transactionHash: entry.transactionHash,
+          blockNumber: Number(entry.blockNumber),
+          logIndex: entry.logIndex,
+          claimedAt: await this.blockTimestamp(entry.blockNumber),
+        });
+      }
+      const inserted = await this.storage.saveIndexedClaims(claims);
+      if (this.caughtUp && inserted.length > 0) this.options.onClaims?.(inserted);
+
+      const block = await this.client.getBlock({ blockNumber: toBlock });
+      await this.storage.setIndexerCheckpoint({
+        name: CHECKPOINT_NAME,
+        blockNumber: Number(toBlock),
+        blockHash: block.hash,
+      });
+
+      this.blockTimestamps.clear();
+      fromBlock = toBlock + BigInt(1);
+    }
+    this.caughtUp = true;
+  }
+
+  private async resumeBlock(): Promise<bigint> {
+    const checkpoint = await this.storage.getIndexerCheckpoint(CHECKPOINT_NAME);
+    if (!checkpoint) return this.options.startBlock;
+
+    const checkpointBlock = BigInt(checkpoint.blockNumber);
+    const block = await this.client.getBlock({ blockNumber: checkpointBlock });
+    if (block.hash === checkpoint.blockHash) {
+      return checkpointBlock + BigInt(1);
+    }
+
+    const rewindTo = checkpointBlock - this.reorgDepth > this.options.startBlock
+      ? checkpointBlock - this.reorgDepth
+      : this.options.startBlock;
+    console.warn(`Faucet indexer detected a reorg at block ${checkpointBlock}, rewinding to ${rewindTo}`);
+    await this.storage.deleteClaimsFromBlock(Number(rewindTo));
+    return rewindTo;
+  }
+
+  private async blockTimestamp(blockNumber: bigint): Promise<Date> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached) return cached;
+
+    const block = await this.client.getBlock({ blockNumber });
+    const timestamp = new Date(Number(block.timestamp) * 1000);
+    this.blockTimestamps.set(blockNumber, timestamp);
+    return timestamp;
+  }
+}
+
+/**
+ * Builds an indexer from `INDEXER_*` environment variables. Indexing is
+ * opt-in: without `INDEXER_START_BLOCK` the routes keep reading Arcscan.
+ */
+export function createIndexerFromEnv(
+  storage: IStorage,
+  defaults: Pick<
+    FaucetIndexerOptions,
+    "rpcUrl" | "faucetAddress" | "tokenAddress" | "tokenDecimals" | "claimAmount" | "onClaims"
+  >,
+): FaucetIndexer | null {
+  const startBlock = process.env.INDEXER_START_BLOCK;
+  if (!startBlock) return null;
+
+  return new FaucetIndexer(storage, {
+    ...defaults,
+    rpcUrl: process.env.INDEXER_RPC_URL || defaults.rpcUrl,
+    startBlock: BigInt(startBlock),
+    batchSize: process.env.INDEXER_BATCH_SIZE ? BigInt(process.env.INDEXER_BATCH_SIZE) : undefined,
+    reorgDepth: process.env.INDEXER_REORG_DEPTH ? BigInt(process.env.INDEXER_REORG_DEPTH) : undefined,
+    pollIntervalMs: process.env.INDEXER_POLL_INTERVAL_MS
+      ? parseInt(process.env.INDEXER_POLL_INTERVAL_MS, 10)
+      : undefined,
+  });
+}
@@ -0,0 +1,56 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import type { LiveEvent } from "@shared/schema";
+
+const HEARTBEAT_MS = 30000;
+
+/**
+ * Broadcasts claim and stats events to browsers over a WebSocket.
+ *
+ * Upgrades are claimed by path only, so other upgrade handlers on the same
+ * server (Vite's HMR socket in development) keep working. Clients that miss
+ * a heartbeat are dropped.
+ */
+export class LiveFeed {
+  private wss = new WebSocketServer({ noServer: true });
+  private alive = new WeakSet<WebSocket>();
+
+  constructor(
+    httpServer: Server,
+    private path: string,
+  ) {
+    httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== this.path) return;
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit("connection", ws, req));
+    });
+
+    this.wss.on("connection", (ws) => {
+      this.alive.add(ws);
+      ws.on("pong", () => this.alive.add(ws));
+      ws.on("error", (error) => console.error("Live feed socket error:", error));
+    });
+
+    setInterval(() => {
+      this.wss.clients.forEach((ws) => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_MS).unref();
+  }
+
+  get clientCount(): number {
+    return this.wss.clients.size;
+  }
+
+  publish(event: LiveEvent) {
+    const data = JSON.stringify(event);
+    this.wss.clients.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { randomBytes } from "crypto";
+import { bytesToHex, type Hex } from "viem";
+import { DEFAULT_SHARE_DIFFICULTY, difficultyToTarget, meetsTarget, powHash, targetToBytes } from "@shared/pow";
+import type { MiningJob, MiningJobView, ShareRejectionReason, ShareResult } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MiningSessions } from "./mining-sessions";
+
+export interface MiningPoolOptions {
+  /** Seconds between shares that vardiff steers each miner towards. */
+  targetShareSeconds?: number;
+  jobTtlMs?: number;
+  initialDifficulty?: number;
+  minDifficulty?: number;
+  maxDifficulty?: number;
+}
+
+/** Blocks are this many times harder than shares. */
+const BLOCK_SHARE_RATIO = 16;
+/** Shares a job needs before its rate is trusted for a retarget. */
+const RETARGET_SHARES = 4;
+/** Largest step one retarget takes, up or down. */
+const MAX_RETARGET_FACTOR = 4;
+/** Smaller corrections are not worth interrupting the miner for. */
+const RETARGET_THRESHOLD = 0.3;
+
+export class MiningPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MiningPoolError";
+  }
+}
+
+export function toJobView(job: MiningJob): MiningJobView {
+  return {
+    id: job.id,
+    seed: job.seed,
+    shareDifficulty: job.shareDifficulty,
+    blockDifficulty: job.blockDifficulty,
+    expiresAt: job.expiresAt.toISOString(),
+  };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Hands out proof-of-work jobs for a wallet's running mining session and
+ * credits the shares it sends back after recomputing their hashes. Only the
+ * session's newest unexpired job is accepted, each nonce once. Difficulty is
+ * retargeted per miner (vardiff) so shares arrive about every
+ * `targetShareSeconds`: after a few shares on a job, and when a new job is
+ * requested.
+ */
+export class MiningPool {
+  private targetShareSeconds: number;
+  private jobTtlMs: number;
+  private initialDifficulty: number;
+  private minDifficulty: number;
+  private maxDifficulty: number;
+
+  constructor(
+    private storage: IStorage,
+    private sessions: MiningSessions,
+    options: MiningPoolOptions = {},
+  ) {
+    this.targetShareSeconds = options.targetShareSeconds ?? 5;
+    this.jobTtlMs = options.jobTtlMs ?? 120000;
+    this.initialDifficulty = options.initialDifficulty ?? DEFAULT_SHARE_DIFFICULTY;
+    this.minDifficulty = options.minDifficulty ?? 1 << 10;
+    this.maxDifficulty = options.maxDifficulty ?? 2 ** 36;
+  }
+
+  async issueJob(walletAddress: string): Promise<MiningJob> {
+    const now = new Date();
+    const session = await this.sessions.current(walletAddress);
+    if (session?.status !== "mining") throw new MiningPoolError("Start or resume a mining session first");
+
+    const previous = await this.storage.getLatestMiningJob(session.id);
+    const difficulty = previous
+      ? this.nextDifficulty(previous, await this.storage.countMiningShares(previous.id), now)
+      : this.initialDifficulty;
+    return this.createJob(session.id, difficulty, now);
+  }
+
+  async submitShare(walletAddress: string, jobId: string, nonce: number): Promise<ShareResult> {
+    const now = new Date();
+    const [job, session] = await Promise.all([this.storage.getMiningJob(jobId), this.sessions.current(walletAddress)]);
+    if (!job || !session || job.sessionId !== session.id) {
+      return this.reject("unknown_job", "No such job for this wallet's session");
+    }
+
+    if (session.status !== "mining") return this.reject("stale_job", `Session is ${session.status}`);
+    const latest = await this.storage.getLatestMiningJob(session.id);
+    if (latest?.id !== job.id || job.expiresAt <= now) {
+      const current = latest && latest.id !== job.id && latest.expiresAt > now ? latest : null;
+      return this.reject("stale_job", "Job was replaced or has expired", current);
+    }
+
+    const hash = powHash(job.seed as Hex, BigInt(nonce));
+    if (!meetsTarget(hash, targetToBytes(difficultyToTarget(job.shareDifficulty)))) {
+      return this.reject("low_difficulty", "Hash is above the share target");
+    }
+    const block = meetsTarget(hash, targetToBytes(difficultyToTarget(job.blockDifficulty)));
+    const hashHex = bytesToHex(hash);
+    const credited = await this.storage.recordMiningShare({
+      sessionId: session.id,
+      jobId: job.id,
+      nonce,
+      hash: hashHex,
+      difficulty: job.shareDifficulty,
+      block,
+    });
+    if (!credited) return this.reject("duplicate_share", "Nonce was already submitted for this job");
+
+    let next: MiningJob | null = null;
+    const shares = await this.storage.countMiningShares(job.id);
+    if (shares >= RETARGET_SHARES) {
+      const difficulty = this.nextDifficulty(job, shares, now);
+      if (Math.abs(difficulty / job.shareDifficulty - 1) > RETARGET_THRESHOLD) {
+        next = await this.createJob(session.id, difficulty, now);
+      }
+    }
+
+    return {
+      accepted: true,
+      block,
+      hash: hashHex,
+      sharesFound: credited.sharesFound,
+      blocksFound: credited.blocksFound,
+      job: next && toJobView(next),
+    };
+  }
+
+  /** The difficulty that would have given one share per `targetShareSeconds` on `job`. */
+  private nextDifficulty(job: MiningJob, shares: number, now: Date): number {
+    const elapsedSeconds = Math.max(1, (now.getTime() - job.createdAt.getTime()) / 1000);
+    // too little evidence either way yet
+    if (shares < RETARGET_SHARES && elapsedSeconds < this.targetShareSeconds * RETARGET_SHARES) {
+      return job.shareDifficulty;
+    }
+    // with no shares at all, one per elapsed period is the most the miner can be doing
+    const sharesPerSecond = Math.max(shares, 1) / elapsedSeconds;
+    const factor = clamp(sharesPerSecond * this.targetShareSeconds, 1 / MAX_RETARGET_FACTOR, MAX_RETARGET_FACTOR);
+    return Math.round(clamp(job.shareDifficulty * factor, this.minDifficulty, this.maxDifficulty));
+  }
+
+  private createJob(sessionId: string, shareDifficulty: number, now: Date): Promise<MiningJob> {
+    return this.storage.createMiningJob({
+      sessionId,
+      seed: bytesToHex(randomBytes(32)),
+      shareDifficulty,
+      blockDifficulty: shareDifficulty * BLOCK_SHARE_RATIO,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.jobTtlMs),
+    });
+  }
+
+  private reject(reason: ShareRejectionReason, message: string, job: MiningJob | null = null): ShareResult {
+    return { accepted: false, reason, message, job: job && toJobView(job) };
+  }
+}
+
+/**
+ * Builds the pool from `VARDIFF_TARGET_SECONDS` (default 5) and
+ * `MINING_JOB_TTL_MS` (default two minutes).
+ */
+export function createMiningPoolFromEnv(storage: IStorage, sessions: MiningSessions): MiningPool {
+  return new MiningPool(storage, sessions, {
+    targetShareSeconds: parseFloat(process.env.VARDIFF_TARGET_SECONDS || "5"),
+    jobTtlMs: parseInt(process.env.MINING_JOB_TTL_MS || "120000", 10),
+  });
+}
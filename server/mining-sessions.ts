@@ -0,0 +1,149 @@
+import {
+  MINING_SESSION_MS,
+  type MiningSession,
+  type MiningSessionAction,
+  type MiningSessionStatus,
+  type MiningSessionUpdate,
+  type MiningSessionView,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// the client's timer and ours never hit zero at quite the same moment
+const COMPLETE_TOLERANCE_MS = 2000;
+
+/** Sessions a wallet can still act on; a new one can only start once none is left. */
+const OPEN_STATUSES: readonly MiningSessionStatus[] = ["mining", "paused", "completed"];
+
+const ALLOWED_FROM: Record<Exclude<MiningSessionAction, "start">, readonly MiningSessionStatus[]> = {
+  pause: ["mining"],
+  resume: ["paused"],
+  stop: OPEN_STATUSES,
+  complete: ["mining"],
+};
+
+export class SessionTransitionError extends Error {
+  constructor(
+    public readonly action: MiningSessionAction,
+    message: string,
+  ) {
+    super(message);
+    this.name = "SessionTransitionError";
+  }
+}
+
+/** Mining time the session has accumulated by `now`, capped at its duration. */
+export function sessionElapsedMs(session: MiningSession, now: Date): number {
+  const running = session.status === "mining" && session.resumedAt ? now.getTime() - session.resumedAt.getTime() : 0;
+  return Math.min(session.durationMs, session.activeMs + Math.max(0, running));
+}
+
+export function toSessionView(session: MiningSession, now = new Date()): MiningSessionView {
+  const elapsedMs = sessionElapsedMs(session, now);
+  return {
+    id: session.id,
+    status: session.status,
+    durationMs: session.durationMs,
+    elapsedMs,
+    remainingMs: session.durationMs - elapsedMs,
+    blocksFound: session.blocksFound,
+    sharesFound: session.sharesFound,
+    startedAt: session.startedAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Keeps one mining session per wallet on the server so it survives reloads
+ * and reconnects. The clock is derived from stored timestamps rather than
+ * trusted from the client, and block and share counts only move when the
+ * mining pool accepts a share.
+ */
+export class MiningSessions {
+  constructor(
+    private storage: IStorage,
+    private durationMs: number = MINING_SESSION_MS,
+    /** How many times faster than `durationMs` a started session may run. */
+    readonly maxSpeed: number = 1,
+  ) {}
+
+  /** The wallet's latest session; a run whose time is up is completed on read. */
+  async current(walletAddress: string): Promise<MiningSession | undefined> {
+    const session = await this.storage.getLatestMiningSession(walletAddress);
+    if (!session || session.status !== "mining") return session;
+    if (sessionElapsedMs(session, new Date()) < session.durationMs) return session;
+
+    const finishedAt = new Date(session.resumedAt!.getTime() + session.durationMs - session.activeMs);
+    const completed = await this.storage.updateMiningSession(session.id, ["mining"], {
+      status: "completed",
+      activeMs: session.durationMs,
+      resumedAt: null,
+      endedAt: finishedAt,
+    });
+    return completed ?? this.storage.getLatestMiningSession(walletAddress);
+  }
+
+  /** `speed` shortens a started session, up to `maxSpeed`; other actions ignore it. */
+  async apply(walletAddress: string, action: MiningSessionAction, speed = 1): Promise<MiningSession> {
+    const now = new Date();
+    const session = await this.current(walletAddress);
+
+    if (action === "start") {
+      if (session && OPEN_STATUSES.includes(session.status)) {
+        throw new SessionTransitionError(action, `Wallet already has a ${session.status} session`);
+      }
+      return this.storage.createMiningSession({
+        walletAddress,
+        durationMs: Math.round(this.durationMs / Math.min(Math.max(speed, 1), this.maxSpeed)),
+        resumedAt: now,
+        startedAt: now,
+      });
+    }
+
+    if (!session) throw new SessionTransitionError(action, "Wallet has no mining session");
+    // the read above may already have completed it
+    if (action === "complete" && session.status === "completed") return session;
+    if (!ALLOWED_FROM[action].includes(session.status)) {
+      throw new SessionTransitionError(action, `Cannot ${action} a ${session.status} session`);
+    }
+
+    const elapsedMs = sessionElapsedMs(session, now);
+    let update: MiningSessionUpdate;
+    switch (action) {
+      case "pause":
+        update = { status: "paused", activeMs: elapsedMs, resumedAt: null };
+        break;
+      case "resume":
+        update = { status: "mining", resumedAt: now };
+        break;
+      case "stop":
+        update = { status: "stopped", activeMs: elapsedMs, resumedAt: null, endedAt: now };
+        break;
+      case "complete":
+        if (elapsedMs + COMPLETE_TOLERANCE_MS < session.durationMs) {
+          throw new SessionTransitionError(action, `Session still has ${session.durationMs - elapsedMs}ms to run`);
+        }
+        update = { status: "completed", activeMs: session.durationMs, resumedAt: null, endedAt: now };
+        break;
+    }
+
+    const updated = await this.storage.updateMiningSession(session.id, [session.status], update);
+    if (!updated) throw new SessionTransitionError(action, "Session changed while updating it");
+    return updated;
+  }
+
+  /** Closes the wallet's completed session once its reward has been claimed on chain. */
+  async markClaimed(walletAddress: string): Promise<void> {
+    const session = await this.current(walletAddress);
+    if (session?.status !== "completed") return;
+    await this.storage.updateMiningSession(session.id, ["completed"], { status: "claimed" });
+  }
+}
+
+/**
+ * Builds the session tracker with `MINING_MAX_SPEED` (default 1), which lets
+ * local and QA runs start compressed sessions.
+ */
+export function createMiningSessionsFromEnv(storage: IStorage): MiningSessions {
+  return new MiningSessions(storage, MINING_SESSION_MS, parseFloat(process.env.MINING_MAX_SPEED || "1"));
+}
@@ -0,0 +1,711 @@
+import type { Express } from "express";
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  getAddress,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  parseAbi,
+  parseAbiItem,
+  parseTransaction,
+  parseUnits,
+  recoverTransactionAddress,
+  toHex,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionSerialized,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  claimAmountUnits,
+  maxClaimTotalUnits,
+  MOCK_ARCSCAN_PATH,
+  MOCK_RPC_PATH,
+  type NetworkProfile,
+} from "@shared/network";
+import type { ArcscanTokenTransfer } from "./arcscan";
+import { TRANSFER_EVENT } from "./chain";
+
+/** The publicly known key of `MOCK_WALLET_ADDRESS`; it only ever signs for the mock chain. */
+const MOCK_WALLET_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const FAUCET_ABI = parseAbi([
+  "function claimInfo(address user) view returns (uint256 totalClaimed, uint256 remainingAllowance, uint256 nextClaimTime)",
+  "function claim()",
+]);
+
+const REVERT_ERROR = parseAbiItem("error Error(string message)");
+
+/** Gas charged for every transaction; gas is free, so this only has to look plausible. */
+const TRANSACTION_GAS = BigInt(100000);
+const BLOCK_GAS_LIMIT = BigInt(30000000);
+const EMPTY_BLOOM = `0x${"0".repeat(512)}` as Hex;
+
+const rpcErrorCodes = {
+  executionReverted: 3,
+  server: -32000,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internal: -32603,
+} as const;
+
+const hexSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]*$/, "must be 0x-prefixed hex")
+  .transform((value) => value as Hex);
+const hashSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{64}$/, "must be a 32-byte hash")
+  .transform((value) => value.toLowerCase() as Hash);
+const addressSchema = z
+  .string()
+  .refine((value) => isAddress(value), { message: "must be a 0x-prefixed 20-byte address" })
+  .transform((value) => getAddress(value));
+const blockTagSchema = z.union([
+  z.enum(["latest", "pending", "safe", "finalized", "earliest"]),
+  z.string().regex(/^0x[0-9a-fA-F]+$/, "must be a block tag or hex block number"),
+]);
+
+type BlockTag = z.infer<typeof blockTagSchema>;
+
+/** The transaction object of `eth_call`, `eth_estimateGas` and `eth_sendTransaction`. */
+const callRequestSchema = z.object({
+  from: addressSchema.optional(),
+  to: addressSchema.nullish(),
+  data: hexSchema.optional(),
+  input: hexSchema.optional(),
+  gas: hexSchema.optional(),
+  value: hexSchema.optional(),
+});
+
+type CallRequest = z.infer<typeof callRequestSchema>;
+
+const logFilterSchema = z.object({
+  address: z.union([addressSchema, z.array(addressSchema)]).optional(),
+  topics: z.array(z.union([hexSchema, z.array(hexSchema), z.null()])).optional(),
+  fromBlock: blockTagSchema.optional(),
+  toBlock: blockTagSchema.optional(),
+  blockHash: hashSchema.optional(),
+});
+
+type LogFilter = z.infer<typeof logFilterSchema>;
+
+/** Positional params per method shape; block params the mock has no history for are accepted and ignored. */
+const paramSchemas = {
+  address: z.tuple([addressSchema, z.unknown()]),
+  call: z.tuple([callRequestSchema, z.unknown()]),
+  blockByNumber: z.tuple([blockTagSchema, z.boolean().optional()]),
+  blockByHash: z.tuple([hashSchema, z.boolean().optional()]),
+  hash: z.tuple([hashSchema]),
+  logFilter: z.tuple([logFilterSchema]),
+  rawTransaction: z.tuple([hexSchema]),
+  transaction: z.tuple([callRequestSchema]),
+  ethSign: z.tuple([addressSchema, hexSchema]),
+  personalSign: z.tuple([hexSchema, addressSchema]),
+};
+
+type ParamsSchema = z.ZodTuple<[z.ZodTypeAny, ...z.ZodTypeAny[]], null>;
+
+/** Parses positional params, reading missing trailing ones as undefined and ignoring extra ones. */
+function parseParams<T extends ParamsSchema>(schema: T, params: unknown[]): z.output<T> {
+  const result = schema.safeParse(schema.items.map((_, index) => params[index]));
+  if (!result.success) {
+    throw new MockRpcError(rpcErrorCodes.invalidParams, fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+export class MockRpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: Hex,
+  ) {
+    super(message);
+    this.name = "MockRpcError";
+  }
+}
+
+/** A Solidity `require` failure, shaped the way nodes report one so viem decodes the reason. */
+function revert(reason?: string): MockRpcError {
+  if (!reason) return new MockRpcError(rpcErrorCodes.executionReverted, "execution reverted");
+  const data = encodeErrorResult({ abi: [REVERT_ERROR], errorName: "Error", args: [reason] });
+  return new MockRpcError(rpcErrorCodes.executionReverted, `execution reverted: ${reason}`, data);
+}
+
+interface WalletClaims {
+  total: bigint;
+  /** Unix seconds. */
+  lastClaimAt: bigint;
+}
+
+/**
+ * The faucet contract's rules, in memory: `claim()` pays `claimAmount` USDC,
+ * at most `maxClaimTotal` per wallet over its lifetime and no sooner than
+ * `claimCooldownSeconds` after that wallet's previous claim.
+ */
+export class MockFaucet {
+  private claims = new Map<string, WalletClaims>();
+  private balances = new Map<string, bigint>();
+
+  constructor(
+    private profile: NetworkProfile,
+    funding: bigint,
+  ) {
+    this.balances.set(profile.faucetAddress.toLowerCase(), funding);
+  }
+
+  balanceOf(address: Address): bigint {
+    return this.balances.get(address.toLowerCase()) ?? BigInt(0);
+  }
+
+  claimInfo(wallet: Address): readonly [totalClaimed: bigint, remainingAllowance: bigint, nextClaimTime: bigint] {
+    const claims = this.claims.get(wallet.toLowerCase());
+    const total = claims?.total ?? BigInt(0);
+    const nextClaimTime = claims ? claims.lastClaimAt + BigInt(this.profile.claimCooldownSeconds) : BigInt(0);
+    return [total, maxClaimTotalUnits(this.profile) - total, nextClaimTime];
+  }
+
+  /** Throws the contract's revert when `wallet` may not claim at `now`; pays out unless `dryRun`. */
+  claim(wallet: Address, now: bigint, dryRun = false): bigint {
+    const amount = claimAmountUnits(this.profile);
+    const [total, remaining, nextClaimTime] = this.claimInfo(wallet);
+    if (remaining < amount) throw revert("Max claim limit reached");
+    if (now < nextClaimTime) throw revert("Claim cooldown active");
+
+    const faucet = this.profile.faucetAddress.toLowerCase();
+    const faucetBalance = this.balanceOf(this.profile.faucetAddress);
+    if (faucetBalance < amount) throw revert("Insufficient faucet balance");
+    if (dryRun) return amount;
+
+    this.balances.set(faucet, faucetBalance - amount);
+    this.balances.set(wallet.toLowerCase(), this.balanceOf(wallet) + amount);
+    this.claims.set(wallet.toLowerCase(), { total: total + amount, lastClaimAt: now });
+    return amount;
+  }
+}
+
+interface MockLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  logIndex: number;
+}
+
+interface MockBlock {
+  number: bigint;
+  hash: Hash;
+  parentHash: Hash;
+  timestamp: bigint;
+  transactions: Hash[];
+}
+
+interface MockTransaction {
+  hash: Hash;
+  from: Address;
+  parsed: ReturnType<typeof parseTransaction>;
+  blockNumber: bigint;
+  logs: MockLog[];
+}
+
+export interface TokenTransferQuery {
+  address: Address;
+  token?: Address;
+  startBlock: number;
+  endBlock?: number;
+  sort: "asc" | "desc";
+  page: number;
+  offset: number;
+}
+
+const TRANSACTION_TYPES: Partial<Record<string, Hex>> = { legacy: "0x0", eip2930: "0x1", eip1559: "0x2" };
+
+type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: unknown; result: unknown }
+  | { jsonrpc: "2.0"; id: unknown; error: { code: number; message: string; data?: Hex } };
+
+/**
+ * A one-node stand-in for Arc: every accepted transaction is mined straight
+ * into its own block, and the only contracts are the faucet (`MockFaucet`) and
+ * USDC's `balanceOf`. Answers the JSON-RPC the app and its wallets use, and
+ * the faucet's token transfers the way Arcscan's `tokentx` does.
+ *
+ * It also holds the key to `MOCK_WALLET_ADDRESS`, so `eth_sign`,
+ * `personal_sign` and `eth_sendTransaction` work for the browser's mock
+ * connector without a wallet extension.
+ */
+export class MockChain {
+  readonly faucet: MockFaucet;
+  private wallet = privateKeyToAccount(MOCK_WALLET_KEY);
+  private blocks: MockBlock[] = [];
+  private transactions = new Map<Hash, MockTransaction>();
+
+  constructor(
+    private profile: NetworkProfile,
+    faucetFunding: bigint,
+    private clock: () => number = Date.now,
+  ) {
+    this.faucet = new MockFaucet(profile, faucetFunding);
+    this.mine([]);
+  }
+
+  get head(): MockBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  async respond(request: unknown): Promise<JsonRpcResponse> {
+    const { id = null, method, params = [] } = (request ?? {}) as { id?: unknown; method?: unknown; params?: unknown };
+    if (typeof method !== "string" || !Array.isArray(params)) {
+      return { jsonrpc: "2.0", id, error: { code: rpcErrorCodes.invalidRequest, message: "Invalid request" } };
+    }
+
+    try {
+      return { jsonrpc: "2.0", id, result: await this.call(method, params) };
+    } catch (error) {
+      if (error instanceof MockRpcError) {
+        return { jsonrpc: "2.0", id, error: { code: error.code, message: error.message, data: error.data } };
+      }
+      console.error(`Error handling mock RPC ${method}:`, error);
+      return { jsonrpc: "2.0", id, error: { code: rpcErrorCodes.internal, message: "Internal error" } };
+    }
+  }
+
+  async call(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return toHex(this.profile.chainId);
+      case "net_version":
+        return String(this.profile.chainId);
+      case "web3_clientVersion":
+        return "arcminer-mock-chain";
+      case "eth_syncing":
+        return false;
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return [this.wallet.address];
+      case "eth_blockNumber":
+        return toHex(this.head.number);
+      case "eth_gasPrice":
+      case "eth_maxPriorityFeePerGas":
+        return "0x0";
+      case "eth_getBalance":
+        parseParams(paramSchemas.address, params);
+        return "0x0";
+      case "eth_getCode": {
+        const [address] = parseParams(paramSchemas.address, params);
+        return this.isContract(address) ? "0x00" : "0x";
+      }
+      case "eth_getTransactionCount": {
+        const [address] = parseParams(paramSchemas.address, params);
+        return toHex(this.nonceOf(address));
+      }
+      case "eth_estimateGas":
+      case "eth_call": {
+        const [request] = parseParams(paramSchemas.call, params);
+        const { output } = this.execute(request.from ?? zeroAddress, request.to ?? null, request.data ?? request.input ?? "0x", true);
+        return method === "eth_call" ? output : toHex(TRANSACTION_GAS);
+      }
+      case "eth_getBlockByNumber": {
+        const [tag, fullTransactions] = parseParams(paramSchemas.blockByNumber, params);
+        const block = this.blocks[Number(this.blockNumber(tag))];
+        return block ? this.blockJson(block, !!fullTransactions) : null;
+      }
+      case "eth_getBlockByHash": {
+        const [hash, fullTransactions] = parseParams(paramSchemas.blockByHash, params);
+        const block = this.blocks.find((entry) => entry.hash === hash);
+        return block ? this.blockJson(block, !!fullTransactions) : null;
+      }
+      case "eth_getTransactionByHash": {
+        const [hash] = parseParams(paramSchemas.hash, params);
+        const transaction = this.transactions.get(hash);
+        return transaction ? this.transactionJson(transaction) : null;
+      }
+      case "eth_getTransactionReceipt": {
+        const [hash] = parseParams(paramSchemas.hash, params);
+        const transaction = this.transactions.get(hash);
+        return transaction ? this.receiptJson(transaction) : null;
+      }
+      case "eth_getLogs": {
+        const [filter] = parseParams(paramSchemas.logFilter, params);
+        return this.getLogs(filter);
+      }
+      case "eth_sendRawTransaction": {
+        const [serialized] = parseParams(paramSchemas.rawTransaction, params);
+        return this.sendRawTransaction(serialized);
+      }
+      case "eth_sendTransaction": {
+        const [request] = parseParams(paramSchemas.transaction, params);
+        return this.sendTransaction(request);
+      }
+      case "eth_sign": {
+        const [address, data] = parseParams(paramSchemas.ethSign, params);
+        return this.sign(address, data);
+      }
+      case "personal_sign": {
+        const [data, address] = parseParams(paramSchemas.personalSign, params);
+        return this.sign(address, data);
+      }
+      default:
+        throw new MockRpcError(rpcErrorCodes.methodNotFound, `Method ${method} is not supported by the mock chain`);
+    }
+  }
+
+  /** Token transfers touching `address`, the way Arcscan's `tokentx` lists them. */
+  tokenTransfers(query: TokenTransferQuery): ArcscanTokenTransfer[] {
+    const transfers: ArcscanTokenTransfer[] = [];
+    for (const transaction of Array.from(this.transactions.values())) {
+      const block = this.blocks[Number(transaction.blockNumber)];
+      if (block.number < BigInt(query.startBlock)) continue;
+      if (query.endBlock !== undefined && block.number > BigInt(query.endBlock)) continue;
+
+      for (const log of transaction.logs) {
+        if (log.topics[0] !== this.transferTopic) continue;
+        if (query.token && !isAddressEqual(log.address, query.token)) continue;
+        const from = getAddress(`0x${log.topics[1].slice(26)}`);
+        const to = getAddress(`0x${log.topics[2].slice(26)}`);
+        if (!isAddressEqual(from, query.address) && !isAddressEqual(to, query.address)) continue;
+        transfers.push({
+          hash: transaction.hash,
+          blockNumber: String(block.number),
+          timeStamp: String(block.timestamp),
+          from: from.toLowerCase(),
+          to: to.toLowerCase(),
+          value: BigInt(log.data).toString(),
+          contractAddress: log.address.toLowerCase(),
+          tokenSymbol: "USDC",
+          tokenDecimal: String(this.profile.usdcDecimals),
+        });
+      }
+    }
+
+    if (query.sort === "desc") transfers.reverse();
+    const start = (query.page - 1) * query.offset;
+    return transfers.slice(start, start + query.offset);
+  }
+
+  private get transferTopic(): Hex {
+    return encodeEventTopics({ abi: [TRANSFER_EVENT], eventName: "Transfer" })[0];
+  }
+
+  private now(): bigint {
+    return BigInt(Math.floor(this.clock() / 1000));
+  }
+
+  private isContract(address: Address): boolean {
+    return isAddressEqual(address, this.profile.faucetAddress) || isAddressEqual(address, this.profile.usdcAddress);
+  }
+
+  private nonceOf(address: Address): number {
+    let nonce = 0;
+    this.transactions.forEach((transaction) => {
+      if (isAddressEqual(transaction.from, address)) nonce += 1;
+    });
+    return nonce;
+  }
+
+  private blockNumber(tag: BlockTag = "latest"): bigint {
+    if (tag === "earliest") return BigInt(0);
+    if (tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") return this.head.number;
+    return BigInt(tag);
+  }
+
+  /**
+   * Runs a call against the two contracts. Calls to any other address succeed
+   * with no output, as they would against an account without code.
+   */
+  private execute(from: Address, to: Address | null, data: Hex, dryRun: boolean): { output: Hex; logs: MockLog[] } {
+    if (!to) throw revert();
+
+    if (isAddressEqual(to, this.profile.faucetAddress)) {
+      let call;
+      try {
+        call = decodeFunctionData({ abi: FAUCET_ABI, data });
+      } catch {
+        throw revert();
+      }
+      if (call.functionName === "claimInfo") {
+        const output = encodeFunctionResult({ abi: FAUCET_ABI, functionName: "claimInfo", result: this.faucet.claimInfo(call.args[0]) });
+        return { output, logs: [] };
+      }
+
+      const amount = this.faucet.claim(from, this.now(), dryRun);
+      const topics = encodeEventTopics({
+        abi: [TRANSFER_EVENT],
+        eventName: "Transfer",
+        args: { from: this.profile.faucetAddress, to: from },
+      }) as Hex[];
+      const log = { address: this.profile.usdcAddress, topics, data: encodeAbiParameters([{ type: "uint256" }], [amount]), logIndex: 0 };
+      return { output: "0x", logs: [log] };
+    }
+
+    if (isAddressEqual(to, this.profile.usdcAddress)) {
+      let call;
+      try {
+        call = decodeFunctionData({ abi: erc20Abi, data });
+      } catch {
+        throw revert();
+      }
+      if (call.functionName !== "balanceOf") throw revert(`USDC.${call.functionName} is not supported by the mock chain`);
+      const output = encodeFunctionResult({ abi: erc20Abi, functionName: "balanceOf", result: this.faucet.balanceOf(call.args[0]) });
+      return { output, logs: [] };
+    }
+
+    return { output: "0x", logs: [] };
+  }
+
+  private async sendTransaction(request: CallRequest): Promise<Hash> {
+    if (!request.from || !isAddressEqual(request.from, this.wallet.address)) {
+      throw new MockRpcError(rpcErrorCodes.server, `Unknown account ${request.from}`);
+    }
+    const serialized = await this.wallet.signTransaction({
+      type: "legacy",
+      chainId: this.profile.chainId,
+      nonce: this.nonceOf(this.wallet.address),
+      to: request.to ?? undefined,
+      data: request.data ?? request.input,
+      value: request.value ? BigInt(request.value) : undefined,
+      gas: request.gas ? BigInt(request.gas) : TRANSACTION_GAS,
+      gasPrice: BigInt(0),
+    });
+    return this.sendRawTransaction(serialized);
+  }
+
+  private async sendRawTransaction(serialized: Hex): Promise<Hash> {
+    let parsed;
+    let from: Address;
+    try {
+      parsed = parseTransaction(serialized as TransactionSerialized);
+      from = await recoverTransactionAddress({ serializedTransaction: serialized as TransactionSerialized });
+    } catch {
+      throw new MockRpcError(rpcErrorCodes.invalidParams, "Could not decode the signed transaction");
+    }
+    if (!parsed.type || !TRANSACTION_TYPES[parsed.type]) {
+      throw new MockRpcError(rpcErrorCodes.invalidParams, `Transaction type ${parsed.type} is not supported`);
+    }
+    if (parsed.chainId !== undefined && parsed.chainId !== this.profile.chainId) {
+      throw new MockRpcError(rpcErrorCodes.server, `Transaction is for chain ${parsed.chainId}, not ${this.profile.chainId}`);
+    }
+
+    const hash = keccak256(serialized);
+    if (this.transactions.has(hash)) throw new MockRpcError(rpcErrorCodes.server, "already known");
+    const nonce = this.nonceOf(from);
+    if ((parsed.nonce ?? 0) !== nonce) {
+      throw new MockRpcError(rpcErrorCodes.server, `Invalid nonce ${parsed.nonce ?? 0}, expected ${nonce}`);
+    }
+
+    const { logs } = this.execute(from, parsed.to ?? null, parsed.data ?? "0x", false);
+    const block = this.mine([hash]);
+    this.transactions.set(hash, { hash, from, parsed, blockNumber: block.number, logs });
+    return hash;
+  }
+
+  private async sign(address: Address, data: Hex): Promise<Hex> {
+    if (!isAddressEqual(address, this.wallet.address)) {
+      throw new MockRpcError(rpcErrorCodes.server, `Unknown account ${address}`);
+    }
+    return this.wallet.signMessage({ message: { raw: data } });
+  }
+
+  private mine(transactions: Hash[]): MockBlock {
+    const parent = this.blocks[this.blocks.length - 1];
+    const number = parent ? parent.number + BigInt(1) : BigInt(0);
+    // blocks never share a second, so every block's timestamp moves forward
+    const timestamp = parent && parent.timestamp >= this.now() ? parent.timestamp + BigInt(1) : this.now();
+    const block: MockBlock = {
+      number,
+      hash: keccak256(toHex(`${number}:${timestamp}:${transactions.join(",")}`)),
+      parentHash: parent?.hash ?? zeroHash,
+      timestamp,
+      transactions,
+    };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private getLogs(filter: LogFilter) {
+    let fromBlock: bigint;
+    let toBlock: bigint;
+    if (filter.blockHash) {
+      const block = this.blocks.find((entry) => entry.hash === filter.blockHash);
+      if (!block) return [];
+      fromBlock = toBlock = block.number;
+    } else {
+      fromBlock = this.blockNumber(filter.fromBlock);
+      toBlock = this.blockNumber(filter.toBlock);
+    }
+    const addresses = filter.address === undefined ? null : [filter.address].flat().map((address) => address.toLowerCase());
+
+    const logs = [];
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.blockNumber < fromBlock || transaction.blockNumber > toBlock) continue;
+      for (const log of transaction.logs) {
+        if (addresses && !addresses.includes(log.address.toLowerCase())) continue;
+        const matches = (filter.topics ?? []).every((wanted, index) => {
+          if (wanted === null) return true;
+          const topic = log.topics[index]?.toLowerCase();
+          return [wanted].flat().some((value) => value.toLowerCase() === topic);
+        });
+        if (matches) logs.push(this.logJson(transaction, log));
+      }
+    }
+    return logs;
+  }
+
+  private blockJson(block: MockBlock, fullTransactions: boolean) {
+    return {
+      number: toHex(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toHex(block.timestamp),
+      nonce: "0x0000000000000000",
+      sha3Uncles: zeroHash,
+      logsBloom: EMPTY_BLOOM,
+      transactionsRoot: zeroHash,
+      stateRoot: zeroHash,
+      receiptsRoot: zeroHash,
+      miner: zeroAddress,
+      difficulty: "0x0",
+      totalDifficulty: "0x0",
+      extraData: "0x",
+      size: "0x0",
+      gasLimit: toHex(BLOCK_GAS_LIMIT),
+      gasUsed: toHex(TRANSACTION_GAS * BigInt(block.transactions.length)),
+      uncles: [],
+      transactions: fullTransactions
+        ? block.transactions.map((hash) => this.transactionJson(this.transactions.get(hash)!))
+        : block.transactions,
+    };
+  }
+
+  private transactionJson({ hash, from, parsed, blockNumber }: MockTransaction) {
+    const fees =
+      parsed.type === "eip1559"
+        ? {
+            gasPrice: toHex(parsed.maxFeePerGas ?? BigInt(0)),
+            maxFeePerGas: toHex(parsed.maxFeePerGas ?? BigInt(0)),
+            maxPriorityFeePerGas: toHex(parsed.maxPriorityFeePerGas ?? BigInt(0)),
+          }
+        : { gasPrice: toHex(parsed.gasPrice ?? BigInt(0)) };
+    return {
+      hash,
+      type: TRANSACTION_TYPES[parsed.type!],
+      chainId: parsed.chainId === undefined ? undefined : toHex(parsed.chainId),
+      from,
+      to: parsed.to ?? null,
+      input: parsed.data ?? "0x",
+      nonce: toHex(parsed.nonce ?? 0),
+      gas: toHex(parsed.gas ?? TRANSACTION_GAS),
+      value: toHex(parsed.value ?? BigInt(0)),
+      ...fees,
+      ...(parsed.accessList ? { accessList: parsed.accessList } : {}),
+      v: toHex(parsed.v ?? (parsed.yParity === undefined ? BigInt(0) : BigInt(parsed.yParity))),
+      r: parsed.r ?? "0x0",
+      s: parsed.s ?? "0x0",
+      ...(parsed.yParity === undefined ? {} : { yParity: toHex(parsed.yParity) }),
+      blockHash: this.blocks[Number(blockNumber)].hash,
+      blockNumber: toHex(blockNumber),
+      transactionIndex: "0x0",
+    };
+  }
+
+  private receiptJson(transaction: MockTransaction) {
+    const { hash, from, parsed, blockNumber } = transaction;
+    return {
+      transactionHash: hash,
+      transactionIndex: "0x0",
+      blockHash: this.blocks[Number(blockNumber)].hash,
+      blockNumber: toHex(blockNumber),
+      from,
+      to: parsed.to ?? null,
+      type: TRANSACTION_TYPES[parsed.type!],
+      status: "0x1",
+      cumulativeGasUsed: toHex(TRANSACTION_GAS),
+      gasUsed: toHex(TRANSACTION_GAS),
+      effectiveGasPrice: toHex(parsed.gasPrice ?? parsed.maxFeePerGas ?? BigInt(0)),
+      contractAddress: null,
+      logsBloom: EMPTY_BLOOM,
+      logs: transaction.logs.map((log) => this.logJson(transaction, log)),
+    };
+  }
+
+  private logJson(transaction: MockTransaction, log: MockLog) {
+    return {
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      blockHash: this.blocks[Number(transaction.blockNumber)].hash,
+      blockNumber: toHex(transaction.blockNumber),
+      transactionHash: transaction.hash,
+      transactionIndex: "0x0",
+      logIndex: toHex(log.logIndex),
+      removed: false,
+    };
+  }
+}
+
+const tokenTxQuerySchema = z.object({
+  module: z.literal("account"),
+  action: z.literal("tokentx"),
+  address: z.string().refine((value) => isAddress(value), { message: "Invalid address format" }),
+  contractaddress: z
+    .string()
+    .refine((value) => isAddress(value), { message: "Invalid contract address format" })
+    .optional(),
+  startblock: z.coerce.number().int().min(0).default(0),
+  endblock: z.coerce.number().int().min(0).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  offset: z.coerce.number().int().min(1).max(10000).default(100),
+  sort: z.enum(["asc", "desc"]).default("asc"),
+});
+
+/** Serves `chain` at `MOCK_RPC_PATH` (JSON-RPC, batches included) and `MOCK_ARCSCAN_PATH`. */
+export function mountMockChain(app: Express, chain: MockChain) {
+  app.post(MOCK_RPC_PATH, async (req, res) => {
+    if (Array.isArray(req.body)) {
+      res.json(await Promise.all(req.body.map((request) => chain.respond(request))));
+      return;
+    }
+    res.json(await chain.respond(req.body));
+  });
+
+  app.get(MOCK_ARCSCAN_PATH, (req, res) => {
+    const parsed = tokenTxQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.json({ status: "0", message: "NOTOK", result: `Error! ${fromZodError(parsed.error).message}` });
+    }
+
+    const query = parsed.data;
+    const result = chain.tokenTransfers({
+      address: query.address as Address,
+      token: query.contractaddress as Address | undefined,
+      startBlock: query.startblock,
+      endBlock: query.endblock,
+      sort: query.sort,
+      page: query.page,
+      offset: query.offset,
+    });
+    if (result.length === 0) return res.json({ status: "0", message: "No transactions found", result: [] });
+    res.json({ status: "1", message: "OK", result });
+  });
+}
+
+/**
+ * Builds the mock chain when `MOCK_CHAIN=1`, with the faucet holding
+ * `MOCK_FAUCET_BALANCE` USDC (default 1,000,000).
+ */
+export function createMockChainFromEnv(profile: NetworkProfile): MockChain | null {
+  if (process.env.MOCK_CHAIN !== "1") return null;
+  const funding = parseUnits(process.env.MOCK_FAUCET_BALANCE || "1000000", profile.usdcDecimals);
+  return new MockChain(profile, funding);
+}
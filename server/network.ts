@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import { fromZodError } from "zod-validation-error";
+// relative so vite.config.ts, which is bundled without the tsconfig aliases, can load this file
+import {
+  ARC_TESTNET,
+  MOCK_ARCSCAN_PATH,
+  MOCK_RPC_PATH,
+  networkProfileSchema,
+  type NetworkProfile,
+} from "../shared/network";
+
+const ENV_OVERRIDES: Record<string, keyof NetworkProfile> = {
+  ARC_CHAIN_ID: "chainId",
+  ARC_CHAIN_NAME: "name",
+  ARC_RPC_URL: "rpcUrl",
+  ARC_EXPLORER_URL: "explorerUrl",
+  ARCSCAN_API_URL: "explorerApiUrl",
+  FAUCET_ADDRESS: "faucetAddress",
+  USDC_ADDRESS: "usdcAddress",
+};
+
+/**
+ * Resolves the network profile: Arc Testnet defaults, then the JSON file named
+ * by `NETWORK_CONFIG`, then individual env overrides. With `MOCK_CHAIN=1` the
+ * RPC and Arcscan URLs point at this server's own mock chain instead. Throws if
+ * the result is not a valid profile, so a bad deployment config fails at startup.
+ */
+export function loadNetworkProfile(env: NodeJS.ProcessEnv = process.env): NetworkProfile {
+  let fromFile: Record<string, unknown> = {};
+  if (env.NETWORK_CONFIG) {
+    const file = path.resolve(env.NETWORK_CONFIG);
+    fromFile = JSON.parse(fs.readFileSync(file, "utf-8"));
+  }
+
+  const fromEnv: Record<string, string> = {};
+  for (const [variable, key] of Object.entries(ENV_OVERRIDES)) {
+    const value = env[variable];
+    if (value) fromEnv[key] = value;
+  }
+
+  let mock: Partial<NetworkProfile> = {};
+  if (env.MOCK_CHAIN === "1") {
+    const origin = `http://localhost:${env.PORT || "5000"}`;
+    mock = { mock: true, rpcUrl: origin + MOCK_RPC_PATH, explorerApiUrl: origin + MOCK_ARCSCAN_PATH };
+  }
+
+  const result = networkProfileSchema.safeParse({ ...ARC_TESTNET, ...fromFile, ...fromEnv, ...mock });
+  if (!result.success) {
+    throw new Error(`Invalid network profile: ${fromZodError(result.error).message}`);
+  }
+  return result.data;
+}
+
+export const network = loadNetworkProfile();
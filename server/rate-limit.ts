@@ -0,0 +1,188 @@
+import type { Request, RequestHandler } from "express";
+import { lte, sql, type SQL } from "drizzle-orm";
+import { rateLimitBuckets } from "@shared/schema";
+import type { Database } from "./db";
+
+export interface BucketPolicy {
+  /** Burst size: the most requests a fresh bucket allows at once. */
+  capacity: number;
+  /** Tokens added back per second. */
+  refillPerSecond: number;
+}
+
+export interface ConsumeResult {
+  allowed: boolean;
+  remaining: number;
+  /** How long until one token is available again; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  consume(key: string, policy: BucketPolicy): Promise<ConsumeResult>;
+}
+
+function retryAfter(tokens: number, policy: BucketPolicy): number {
+  return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / policy.refillPerSecond) * 1000);
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+
+  constructor() {
+    // drop buckets that have refilled completely; they behave like new ones
+    setInterval(() => {
+      const now = Date.now();
+      Array.from(this.buckets.entries()).forEach(([key, bucket]) => {
+        if (bucket.fullAt <= now) this.buckets.delete(key);
+      });
+    }, 60000).unref();
+  }
+
+  async consume(key: string, policy: BucketPolicy): Promise<ConsumeResult> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    const refilled = bucket
+      ? Math.min(policy.capacity, bucket.tokens + elapsed * policy.refillPerSecond)
+      : policy.capacity;
+
+    const allowed = refilled >= 1;
+    const tokens = allowed ? refilled - 1 : refilled;
+    const fullAt = now + ((policy.capacity - tokens) / policy.refillPerSecond) * 1000;
+    this.buckets.set(key, { tokens, updatedAt: now, fullAt });
+
+    return { allowed, remaining: Math.floor(tokens), retryAfterMs: retryAfter(tokens, policy) };
+  }
+}
+
+/** Buckets shared by every server instance, refilled and spent in a single upsert. */
+export class PgRateLimitStore implements RateLimitStore {
+  constructor(private db: Database) {
+    // drop buckets that have refilled completely; they behave like new ones
+    setInterval(() => {
+      this.db
+        .delete(rateLimitBuckets)
+        .where(lte(rateLimitBuckets.fullAt, sql`now()`))
+        .catch((error) => console.error("Error pruning rate limit buckets:", error));
+    }, 60000).unref();
+  }
+
+  async consume(key: string, policy: BucketPolicy): Promise<ConsumeResult> {
+    const refilled = sql`LEAST(${policy.capacity}::double precision, ${rateLimitBuckets.tokens} + EXTRACT(EPOCH FROM (now() - ${rateLimitBuckets.updatedAt})) * ${policy.refillPerSecond}::double precision)`;
+    const tokens = sql`CASE WHEN ${refilled} >= 1 THEN ${refilled} - 1 ELSE ${refilled} END`;
+    const fullAt = (remaining: SQL) =>
+      sql`now() + (${policy.capacity}::double precision - ${remaining}) / ${policy.refillPerSecond}::double precision * interval '1 second'`;
+
+    const [row] = await this.db
+      .insert(rateLimitBuckets)
+      .values({ key, tokens: policy.capacity - 1, allowed: true, fullAt: fullAt(sql`${policy.capacity - 1}::double precision`) })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          tokens,
+          allowed: sql`${refilled} >= 1`,
+          updatedAt: sql`now()`,
+          fullAt: fullAt(tokens),
+        },
+      })
+      .returning({ tokens: rateLimitBuckets.tokens, allowed: rateLimitBuckets.allowed });
+
+    return {
+      allowed: row.allowed,
+      remaining: Math.floor(row.tokens),
+      retryAfterMs: retryAfter(row.tokens, policy),
+    };
+  }
+}
+
+export type RateLimitKey = "ip" | "wallet";
+
+export interface RouteLimit extends BucketPolicy {
+  keys: RateLimitKey[];
+}
+
+export const DEFAULT_ROUTE_LIMITS = {
+  api: { capacity: 120, refillPerSecond: 2, keys: ["ip"] },
+  explorer: { capacity: 20, refillPerSecond: 0.2, keys: ["ip", "wallet"] },
+  claim: { capacity: 5, refillPerSecond: 1 / 60, keys: ["ip", "wallet"] },
+  auth: { capacity: 10, refillPerSecond: 0.1, keys: ["ip", "wallet"] },
+} satisfies Record<string, RouteLimit>;
+
+export type RouteLimitName = keyof typeof DEFAULT_ROUTE_LIMITS;
+
+/**
+ * The signed-in wallet. Addresses in the path or body are never used: anyone
+ * could name a victim's wallet there and spend its budget.
+ */
+function walletOf(req: Request): string | undefined {
+  return req.user?.address.toLowerCase();
+}
+
+/**
+ * Token-bucket limiter keyed by client IP and, when signed in, by wallet.
+ * Every applicable bucket is charged; the request is refused with a 429 and
+ * `Retry-After` if any of them is empty.
+ */
+export function createRateLimiter(store: RateLimitStore, limits: Record<RouteLimitName, RouteLimit>) {
+  return (name: RouteLimitName): RequestHandler => {
+    const limit = limits[name];
+
+    return async (req, res, next) => {
+      const keys: string[] = [];
+      if (limit.keys.includes("ip")) keys.push(`${name}:ip:${req.ip}`);
+      const wallet = limit.keys.includes("wallet") ? walletOf(req) : undefined;
+      if (wallet) keys.push(`${name}:wallet:${wallet}`);
+
+      try {
+        const results = await Promise.all(keys.map((key) => store.consume(key, limit)));
+        const blocked = results.filter((result) => !result.allowed);
+        const remaining = Math.min(...results.map((result) => result.remaining));
+        if (Number.isFinite(remaining)) res.set("X-RateLimit-Remaining", String(remaining));
+
+        if (blocked.length > 0) {
+          const retryAfterSeconds = Math.ceil(Math.max(...blocked.map((result) => result.retryAfterMs)) / 1000);
+          res.set("Retry-After", String(retryAfterSeconds));
+          res.status(429).json({ error: "Too many requests", retryAfter: retryAfterSeconds });
+          return;
+        }
+      } catch (error) {
+        // a broken limiter store should not take the API down with it
+        console.error("Rate limiter failed:", error);
+      }
+      next();
+    };
+  };
+}
+
+function parseLimit(value: string, fallback: RouteLimit): RouteLimit {
+  const [capacity, refillPerSecond] = value.split(":").map(Number);
+  if (!(capacity >= 1) || !(refillPerSecond > 0)) {
+    throw new Error(`Invalid rate limit "${value}", expected <capacity>:<refillPerSecond>`);
+  }
+  return { ...fallback, capacity, refillPerSecond };
+}
+
+/**
+ * Builds the limiter from `RATE_LIMIT_STORE` (`memory` or `postgres`) and
+ * per-route `RATE_LIMIT_<NAME>=<capacity>:<refillPerSecond>` overrides.
+ */
+export function createRateLimiterFromEnv(db: Database | null) {
+  const storeName = process.env.RATE_LIMIT_STORE || (db ? "postgres" : "memory");
+  let store: RateLimitStore;
+  if (storeName === "postgres") {
+    if (!db) throw new Error("RATE_LIMIT_STORE=postgres requires DATABASE_URL");
+    store = new PgRateLimitStore(db);
+  } else if (storeName === "memory") {
+    store = new MemoryRateLimitStore();
+  } else {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${storeName}"`);
+  }
+
+  const limits = { ...DEFAULT_ROUTE_LIMITS } as Record<RouteLimitName, RouteLimit>;
+  for (const name of Object.keys(limits) as RouteLimitName[]) {
+    const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+    if (override) limits[name] = parseLimit(override, limits[name]);
+  }
+
+  return createRateLimiter(store, limits);
+}
@@ -1,90 +1,350 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertClaimHistorySchema } from "@shared/schema";
-
-const FAUCET_CONTRACT = "0xBd736A5D744A6364dd74B12Bb679d66360d7AeD9";
-const USDC_ADDRESS = "0x3600000000000000000000000000000000000000";
-const ARCSCAN_API = "https://testnet.arcscan.app/api";
-
-interface ArcscanTokenTransfer {
-  hash: string;
-  from: string;
-  to: string;
-  value: string;
-  tokenSymbol: string;
-  tokenDecimal: string;
-  timeStamp: string;
-  contractAddress: string;
+import { BUCKET_MS, storage } from "./storage";
+import {
+  insertClaimHistorySchema,
+  leaderboardWindows,
+  LIVE_FEED_PATH,
+  miningSessionActions,
+  timeseriesBuckets,
+  type CacheMeta,
+  type ClaimHistory,
+  type ClaimHistoryResponse,
+  type ClaimTimeseries,
+  type ClaimTotals,
+  type FaucetBalanceHistory,
+  type InsertClaimHistory,
+  type Leaderboard,
+  type LeaderboardEntry,
+  type LeaderboardWindow,
+  type RecentClaim,
+  type WebhookEndpoint,
+  webhookDeliveryStatuses,
+  webhookEvents,
+} from "@shared/schema";
+import { z } from "zod";
+import { getAddress } from "viem";
+import { createIndexerFromEnv } from "./indexer";
+import { createBalanceSamplerFromEnv } from "./balance-sampler";
+import { ClaimTotalsTracker } from "./claim-totals";
+import { createArcscanClientFromEnv, isFaucetClaim, type ArcscanTokenTransfer, type ClaimFilter } from "./arcscan";
+import { createExplorerCacheFromEnv, type CachedResult } from "./cache";
+import { network } from "./network";
+import { ClaimRejectedError, ClaimVerifier } from "./claim-verifier";
+import { ClaimEligibilityChecker } from "./claim-eligibility";
+import { requireAdmin, requireWallet, setupAuth } from "./auth";
+import { createRateLimiterFromEnv } from "./rate-limit";
+import { db } from "./db";
+import { LiveFeed } from "./live-feed";
+import { exportFormats, writeClaimExport } from "./claim-export";
+import { createWebhookDispatcherFromEnv, generateWebhookSecret } from "./webhooks";
+import { createMiningSessionsFromEnv, SessionTransitionError, toSessionView } from "./mining-sessions";
+import { createMiningPoolFromEnv, MiningPoolError, toJobView } from "./mining-pool";
+import { StratumServer } from "./stratum";
+import { log } from "./log";
+import { createMockChainFromEnv, mountMockChain } from "./mock-chain";
+import { claimAmountUnits } from "@shared/network";
+import { STRATUM_PATH } from "@shared/stratum";
+
+const CLAIM_FILTER: ClaimFilter = {
+  faucetAddress: network.faucetAddress,
+  tokenAddress: network.usdcAddress,
+  tokenDecimals: network.usdcDecimals,
+  claimAmount: claimAmountUnits(network),
+};
+
+const WINDOW_MS: Record<LeaderboardWindow, number | null> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+const leaderboardQuerySchema = z.object({
+  window: z.enum(leaderboardWindows).default("7d"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  wallet: z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),
+});
+
+const MAX_TIMESERIES_POINTS = 2000;
+
+const timeseriesQuerySchema = z.object({
+  bucket: z.enum(timeseriesBuckets).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const MAX_BALANCE_POINTS = 500;
+
+const balanceQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+function toLeaderboardEntry(entry: LeaderboardEntry): LeaderboardEntry {
+  return {
+    ...entry,
+    walletAddress: getAddress(entry.walletAddress),
+    totalClaimed: parseFloat(entry.totalClaimed).toFixed(2),
+  };
+}
+
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const createWebhookSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//.test(url), "Only http(s) URLs are supported"),
+  events: z.array(z.enum(webhookEvents)).min(1),
+  secret: z.string().min(16).optional(),
+});
+
+const webhookDeliveriesQuerySchema = z.object({
+  endpointId: z.string().optional(),
+  status: z.enum(webhookDeliveryStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const sessionActionSchema = z.object({
+  action: z.enum(miningSessionActions),
+  speed: z.number().min(1).optional(),
+});
+
+const shareSubmissionSchema = z.object({
+  jobId: z.string().min(1),
+  nonce: z.number().int().min(0).max(Number.MAX_SAFE_INTEGER),
+});
+
+/** Endpoint secrets are only shown once, when the endpoint is created. */
+function withoutSecret(endpoint: WebhookEndpoint) {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secretHint: `${secret.slice(0, 10)}...` };
+}
+
+function fromTransfer(tx: ArcscanTokenTransfer): RecentClaim {
+  const decimals = parseInt(tx.tokenDecimal || String(network.usdcDecimals));
+  const value = Number(BigInt(tx.value)) / Math.pow(10, decimals);
+  return {
+    id: tx.hash.slice(0, 8),
+    walletAddress: tx.to,
+    amount: value.toFixed(6),
+    transactionHash: tx.hash,
+    claimedAt: new Date(parseInt(tx.timeStamp) * 1000).toISOString()
+  };
+}
+
+function fromClaimHistory(claim: ClaimHistory): RecentClaim {
+  return {
+    id: claim.id,
+    walletAddress: claim.walletAddress,
+    amount: claim.amount,
+    transactionHash: claim.transactionHash,
+    claimedAt: claim.claimedAt.toISOString(),
+  };
+}
+
+function cacheMeta(cached: CachedResult<unknown>): CacheMeta {
+  return { fetchedAt: cached.fetchedAt.toISOString(), stale: cached.stale };
+}
+
+function liveMeta(): CacheMeta {
+  return { fetchedAt: new Date().toISOString(), stale: false };
 }
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  
-  app.post("/api/claim-history", async (req, res) => {
+  // with MOCK_CHAIN=1 the network profile points every chain and Arcscan client here
+  const mockChain = createMockChainFromEnv(network);
+  if (mockChain) mountMockChain(app, mockChain);
+
+  const limit = createRateLimiterFromEnv(db);
+  const sessionWallet = setupAuth(app, limit("auth"));
+  app.use("/api", limit("api"));
+
+  const liveFeed = new LiveFeed(httpServer, LIVE_FEED_PATH);
+
+  /** Pushes new claims to live clients, then `totals` once they are known to count those claims. */
+  const publishClaims = (claims: RecentClaim[], totals?: Promise<ClaimTotals>) => {
+    claims.forEach((claim) => liveFeed.publish({ type: "claim.created", claim }));
+    totals
+      ?.then((value) => liveFeed.publish({ type: "stats.updated", totals: { ...value, ...liveMeta() } }))
+      .catch((error) => console.error('Error publishing claim totals:', error));
+  };
+
+  const webhooks = createWebhookDispatcherFromEnv(storage);
+  webhooks.start();
+
+  const maxClaimTotal = parseFloat(network.maxClaimTotal);
+  const emitSavedClaims = async (claims: RecentClaim[]) => {
+    for (const claim of claims) {
+      await webhooks.emit("claim.recorded", claim.transactionHash?.toLowerCase() ?? claim.id, claim);
+
+      const walletClaims = await storage.getClaimHistoryByWallet(claim.walletAddress);
+      const walletTotal = walletClaims.reduce((total, entry) => total + parseFloat(entry.amount), 0);
+      if (walletTotal >= maxClaimTotal) {
+        await webhooks.emit("wallet.limit_reached", claim.walletAddress.toLowerCase(), {
+          walletAddress: claim.walletAddress,
+          totalClaimed: walletTotal.toFixed(2),
+          limit: network.maxClaimTotal,
+        });
+      }
+    }
+  };
+  const sessions = createMiningSessionsFromEnv(storage);
+  const miningPool = createMiningPoolFromEnv(storage, sessions);
+  new StratumServer(httpServer, STRATUM_PATH, miningPool, sessionWallet);
+
+  // a claim, from whichever device, settles the wallet's completed session
+  const closeClaimedSessions = (claims: RecentClaim[]) => {
+    const wallets = new Set(claims.map((claim) => claim.walletAddress.toLowerCase()));
+    wallets.forEach((wallet) => {
+      sessions.markClaimed(wallet).catch((error) => console.error('Error closing mining session:', error));
+    });
+  };
+
+  const recordSavedClaims = (claims: RecentClaim[], totals?: Promise<ClaimTotals>) => {
+    publishClaims(claims, totals);
+    closeClaimedSessions(claims);
+    emitSavedClaims(claims).catch((error) => console.error('Error queueing claim webhooks:', error));
+  };
+
+  const indexer = createIndexerFromEnv(storage, {
+    ...CLAIM_FILTER,
+    rpcUrl: network.rpcUrl,
+    onClaims: (claims) => recordSavedClaims(claims.map(fromClaimHistory), storage.getClaimTotals()),
+  });
+  indexer?.start();
+
+  // fires once each time the balance drops below the threshold, not on every sample
+  const lowBalanceThreshold = parseFloat(process.env.WEBHOOK_LOW_BALANCE_USDC || "1000");
+  let balanceWasLow = false;
+  const balanceSampler = createBalanceSamplerFromEnv(storage, {
+    rpcUrl: network.rpcUrl,
+    faucetAddress: network.faucetAddress,
+    tokenAddress: network.usdcAddress,
+    tokenDecimals: network.usdcDecimals,
+    onSample: (balance) => {
+      const isLow = balance < lowBalanceThreshold;
+      if (isLow && !balanceWasLow) {
+        const sampledAt = new Date().toISOString();
+        webhooks
+          .emit("faucet.balance_low", sampledAt, {
+            balance: balance.toFixed(2),
+            threshold: lowBalanceThreshold.toFixed(2),
+            sampledAt,
+          })
+          .catch((error) => console.error('Error queueing balance webhook:', error));
+      }
+      balanceWasLow = isLow;
+    },
+  });
+  balanceSampler?.start();
+
+  const arcscan = createArcscanClientFromEnv(network.explorerApiUrl);
+  const explorerCache = createExplorerCacheFromEnv();
+  const claimTotals = new ClaimTotalsTracker(storage, arcscan, {
+    ...CLAIM_FILTER,
+    onClaims: (transfers, totals) => {
+      explorerCache.invalidate("claim-history");
+      explorerCache.invalidate("total-claimed");
+      const claims = transfers.map(fromTransfer);
+      publishClaims(claims, Promise.resolve(totals));
+      closeClaimedSessions(claims);
+    },
+  });
+  const claimVerifier = new ClaimVerifier({
+    rpcUrl: network.rpcUrl,
+    faucetAddress: network.faucetAddress,
+    tokenAddress: network.usdcAddress,
+    tokenDecimals: network.usdcDecimals,
+  });
+
+  const eligibility = new ClaimEligibilityChecker(storage, indexer ? null : arcscan, {
+    ...CLAIM_FILTER,
+    cooldownMs: network.claimCooldownSeconds * 1000,
+  });
+
+  // one-off rebuild of the explorer totals, e.g. after the faucet was redeployed
+  if (!indexer && process.env.ARCSCAN_BACKFILL === "1") {
+    claimTotals
+      .backfill()
+      .then((totals) => log(`backfill complete: ${totals.claimCount} claims, ${totals.totalClaimed} USDC`, "arcscan"))
+      .catch((error) => console.error('Arcscan backfill failed:', error));
+  }
+
+  // without the indexer nothing else polls Arcscan, so watch it while anyone is listening
+  if (!indexer) {
+    const pollMs = parseInt(process.env.LIVE_FEED_POLL_MS || "15000", 10);
+    setInterval(() => {
+      if (liveFeed.clientCount === 0) return;
+      claimTotals.refresh().catch((error) => console.error('Live feed Arcscan poll failed:', error));
+    }, pollMs).unref();
+  }
+
+  app.post("/api/claim-history", limit("claim"), async (req, res) => {
+    let validatedData: InsertClaimHistory;
     try {
-      const validatedData = insertClaimHistorySchema.parse(req.body);
-      const claim = await storage.createClaimHistory(validatedData);
-      res.json(claim);
+      validatedData = insertClaimHistorySchema.parse(req.body);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
+      return;
     }
-  });
 
-  app.get("/api/claim-history", async (req, res) => {
     try {
-      const response = await fetch(
-        `${ARCSCAN_API}?module=account&action=tokentx&address=${FAUCET_CONTRACT}&page=1&offset=100&sort=desc`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch from arcscan');
+      const verified = await claimVerifier.verify(validatedData);
+      const { claim, created } = await storage.createClaimHistory({
+        walletAddress: verified.walletAddress,
+        amount: verified.amount,
+        transactionHash: verified.transactionHash,
+        blockNumber: verified.blockNumber,
+        claimedAt: verified.claimedAt,
+      });
+      // a resubmission is not news; without the indexer the stored totals only
+      // count the claim once the Arcscan scan reaches it, which publishes them then
+      if (created) recordSavedClaims([fromClaimHistory(claim)], indexer ? storage.getClaimTotals() : undefined);
+      res.json(claim);
+    } catch (error: any) {
+      if (error instanceof ClaimRejectedError) {
+        res.status(422).json({ error: error.message, reason: error.reason });
+        return;
       }
-      
-      const data = await response.json();
-      
-      if (data.status !== "1" || !data.result) {
-        res.json([]);
+      console.error('Error verifying claim:', error);
+      res.status(502).json({ error: "Could not verify the claim on chain" });
+    }
+  });
+
+  app.get("/api/claim-history", limit("explorer"), async (req, res) => {
+    try {
+      if (indexer) {
+        const claims = await storage.getClaimHistory(100);
+        res.json({ claims: claims.map(fromClaimHistory), ...liveMeta() } satisfies ClaimHistoryResponse);
         return;
       }
-      
-      const TARGET_VALUE = BigInt(200) * BigInt(10 ** 6);
-      
-      const claims = (data.result as ArcscanTokenTransfer[])
-        .filter((tx: ArcscanTokenTransfer) => {
-          const fromLower = tx.from.toLowerCase();
-          const contractLower = FAUCET_CONTRACT.toLowerCase();
-          const tokenLower = tx.contractAddress?.toLowerCase() || '';
-          const usdcLower = USDC_ADDRESS.toLowerCase();
-          
-          try {
-            const valueBigInt = BigInt(tx.value);
-            return fromLower === contractLower && 
-                   tokenLower === usdcLower && 
-                   valueBigInt === TARGET_VALUE;
-          } catch {
-            return false;
-          }
-        })
-        .map((tx: ArcscanTokenTransfer) => {
-          const decimals = parseInt(tx.tokenDecimal || '6');
-          const value = Number(BigInt(tx.value)) / Math.pow(10, decimals);
-          return {
-            id: tx.hash.slice(0, 8),
-            walletAddress: tx.to,
-            amount: value.toFixed(6),
-            transactionHash: tx.hash,
-            claimedAt: new Date(parseInt(tx.timeStamp) * 1000).toISOString()
-          };
+
+      const cached = await explorerCache.get("claim-history", async () => {
+        const transfers = await arcscan.getTokenTransfers({
+          address: network.faucetAddress,
+          page: 1,
+          offset: 100,
+          sort: "desc",
         });
-      
-      res.json(claims);
+
+        return transfers.filter((tx) => isFaucetClaim(tx, CLAIM_FILTER)).map(fromTransfer);
+      });
+
+      res.json({ claims: cached.value, ...cacheMeta(cached) } satisfies ClaimHistoryResponse);
     } catch (error: any) {
       console.error('Error fetching claim history:', error);
       const localClaims = await storage.getClaimHistory(50);
-      res.json(localClaims);
+      res.json({
+        claims: localClaims.map(fromClaimHistory),
+        fetchedAt: null,
+        stale: true,
+      } satisfies ClaimHistoryResponse);
     }
   });
 
@@ -98,55 +358,297 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/total-claimed", async (req, res) => {
+  app.get("/api/claim-eligibility/:walletAddress", limit("explorer"), async (req, res) => {
+    const { walletAddress } = req.params;
+    if (!/^0x[0-9a-fA-F]{40}$/.test(walletAddress)) {
+      res.status(400).json({ error: "Invalid wallet address" });
+      return;
+    }
+
     try {
-      const response = await fetch(
-        `${ARCSCAN_API}?module=account&action=tokentx&address=${FAUCET_CONTRACT}&page=1&offset=1000&sort=desc`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch from arcscan');
+      res.json(await eligibility.check(getAddress(walletAddress)));
+    } catch (error: any) {
+      console.error('Error checking claim eligibility:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/claim-history/:walletAddress/export", limit("explorer"), async (req, res) => {
+    const { walletAddress } = req.params;
+    if (!/^0x[0-9a-fA-F]{40}$/.test(walletAddress)) {
+      res.status(400).json({ error: "Invalid wallet address" });
+      return;
+    }
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    const { format, from, to } = parsed.data;
+    try {
+      await writeClaimExport(res, storage.iterateClaimHistoryByWallet(walletAddress, { from, to }), {
+        format,
+        filename: `arcminer-claims-${walletAddress.toLowerCase()}`,
+        explorerUrl: network.explorerUrl,
+      });
+    } catch (error: any) {
+      console.error('Error exporting claim history:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
       }
-      
-      const data = await response.json();
-      
-      if (data.status !== "1" || !data.result) {
-        res.json({ totalClaimed: "0", claimCount: 0 });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/total-claimed", limit("explorer"), async (req, res) => {
+    try {
+      if (indexer) {
+        res.json({ ...(await storage.getClaimTotals()), ...liveMeta() });
         return;
       }
-      
-      const TARGET_VALUE = BigInt(200) * BigInt(10 ** 6);
-      
-      const validClaims = (data.result as ArcscanTokenTransfer[])
-        .filter((tx: ArcscanTokenTransfer) => {
-          const fromLower = tx.from.toLowerCase();
-          const contractLower = FAUCET_CONTRACT.toLowerCase();
-          const tokenLower = tx.contractAddress?.toLowerCase() || '';
-          const usdcLower = USDC_ADDRESS.toLowerCase();
-          
-          try {
-            const valueBigInt = BigInt(tx.value);
-            return fromLower === contractLower && 
-                   tokenLower === usdcLower && 
-                   valueBigInt === TARGET_VALUE;
-          } catch {
-            return false;
-          }
+
+      const cached = await explorerCache.get("total-claimed", () => claimTotals.refresh());
+      res.json({ ...cached.value, ...cacheMeta(cached) });
+    } catch (error: any) {
+      console.error('Error fetching total claimed:', error);
+      const lastKnown = await claimTotals.current().catch(() => undefined);
+      res.json({ ...(lastKnown ?? { totalClaimed: "0", claimCount: 0 }), fetchedAt: null, stale: true });
+    }
+  });
+
+  app.get("/api/leaderboard", async (req, res) => {
+    const parsed = leaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    try {
+      const { window, limit, wallet } = parsed.data;
+      const windowMs = WINDOW_MS[window];
+      const result = await storage.getLeaderboard({
+        since: windowMs === null ? undefined : new Date(Date.now() - windowMs),
+        limit,
+        wallet,
+      });
+
+      const leaderboard: Leaderboard = {
+        window,
+        entries: result.entries.map(toLeaderboardEntry),
+        wallet: result.wallet ? toLeaderboardEntry(result.wallet) : null,
+      };
+      res.json(leaderboard);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/stats/timeseries", async (req, res) => {
+    const parsed = timeseriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    const { bucket } = parsed.data;
+    const size = BUCKET_MS[bucket];
+    // whole buckets only: `to` rounds up, `from` rounds down
+    const to = Math.ceil((parsed.data.to ?? new Date()).getTime() / size) * size;
+    const defaultSpan = bucket === "hour" ? 48 * size : 30 * size;
+    const from = Math.floor((parsed.data.from?.getTime() ?? to - defaultSpan) / size) * size;
+
+    if (from >= to) {
+      res.status(400).json({ error: "`from` must be before `to`" });
+      return;
+    }
+    if ((to - from) / size > MAX_TIMESERIES_POINTS) {
+      res.status(400).json({ error: `Range too large: at most ${MAX_TIMESERIES_POINTS} ${bucket} buckets` });
+      return;
+    }
+
+    try {
+      const [points, before] = await Promise.all([
+        storage.getClaimTimeseries({ bucket, from: new Date(from), to: new Date(to) }),
+        storage.getClaimTotals(new Date(from)),
+      ]);
+      const byStart = new Map(points.map((point) => [new Date(point.bucketStart).getTime(), point]));
+
+      const series: ClaimTimeseries = {
+        bucket,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        claimedBefore: parseFloat(before.totalClaimed).toFixed(2),
+        points: [],
+      };
+      for (let start = from; start < to; start += size) {
+        const point = byStart.get(start);
+        series.points.push({
+          bucketStart: new Date(start).toISOString(),
+          claimCount: point?.claimCount ?? 0,
+          totalClaimed: parseFloat(point?.totalClaimed ?? "0").toFixed(2),
+          uniqueWallets: point?.uniqueWallets ?? 0,
+          newWallets: point?.newWallets ?? 0,
         });
-      
-      const totalClaimed = validClaims.reduce((sum, tx) => {
-        const decimals = parseInt(tx.tokenDecimal || '6');
-        const value = Number(BigInt(tx.value)) / Math.pow(10, decimals);
-        return sum + value;
-      }, 0);
-      
-      res.json({ 
-        totalClaimed: totalClaimed.toFixed(2), 
-        claimCount: validClaims.length 
+      }
+      res.json(series);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/stats/faucet-balance", async (req, res) => {
+    const parsed = balanceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    const to = parsed.data.to ?? new Date();
+    const from = parsed.data.from ?? new Date(to.getTime() - WINDOW_MS["7d"]!);
+    if (from >= to) {
+      res.status(400).json({ error: "`from` must be before `to`" });
+      return;
+    }
+
+    try {
+      const snapshots = await storage.getFaucetBalanceHistory(from, to);
+      // thin long ranges evenly rather than shipping every sample
+      const step = Math.ceil(snapshots.length / MAX_BALANCE_POINTS) || 1;
+      const history: FaucetBalanceHistory = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        points: snapshots
+          .filter((_, index) => index % step === 0 || index === snapshots.length - 1)
+          .map((snapshot) => ({
+            sampledAt: snapshot.sampledAt.toISOString(),
+            balance: parseFloat(snapshot.balance).toFixed(2),
+          })),
+      };
+      res.json(history);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/sessions", requireWallet, async (req, res) => {
+    try {
+      const session = await sessions.current(req.user!.address);
+      res.json(session ? toSessionView(session) : null);
+    } catch (error: any) {
+      console.error('Error fetching mining session:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/sessions", requireWallet, async (req, res) => {
+    const parsed = sessionActionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    const { action, speed } = parsed.data;
+    if (speed && speed > sessions.maxSpeed) {
+      res.status(400).json({ error: `Sessions can run at most ${sessions.maxSpeed}x on this server` });
+      return;
+    }
+
+    try {
+      const session = await sessions.apply(req.user!.address, action, speed);
+      res.status(action === "start" ? 201 : 200).json(toSessionView(session));
+    } catch (error: any) {
+      if (error instanceof SessionTransitionError) {
+        res.status(409).json({ error: error.message, action: error.action });
+        return;
+      }
+      console.error('Error updating mining session:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/mining/jobs", requireWallet, async (req, res) => {
+    try {
+      const job = await miningPool.issueJob(req.user!.address);
+      res.status(201).json(toJobView(job));
+    } catch (error: any) {
+      if (error instanceof MiningPoolError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error issuing mining job:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // rejected shares are a normal outcome for a miner, so they come back as 200 with a reason
+  app.post("/api/mining/shares", requireWallet, async (req, res) => {
+    const parsed = shareSubmissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    try {
+      res.json(await miningPool.submitShare(req.user!.address, parsed.data.jobId, parsed.data.nonce));
+    } catch (error: any) {
+      console.error('Error checking mining share:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/webhooks", requireAdmin, async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpoints();
+      res.json(endpoints.map(withoutSecret));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/webhooks", requireAdmin, async (req, res) => {
+    const parsed = createWebhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    try {
+      const endpoint = await storage.createWebhookEndpoint({
+        url: parsed.data.url,
+        events: Array.from(new Set(parsed.data.events)),
+        secret: parsed.data.secret ?? generateWebhookSecret(),
       });
+      res.status(201).json(endpoint);
     } catch (error: any) {
-      console.error('Error fetching total claimed:', error);
-      res.json({ totalClaimed: "0", claimCount: 0 });
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.deleteWebhookEndpoint(req.params.id))) {
+        res.status(404).json({ error: "Webhook not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/webhooks/deliveries", requireAdmin, async (req, res) => {
+    const parsed = webhookDeliveriesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.message });
+      return;
+    }
+
+    try {
+      res.json(await storage.getWebhookDeliveries(parsed.data));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
     }
   });
 
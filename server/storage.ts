@@ -1,30 +1,196 @@
-import { type ClaimHistory, type InsertClaimHistory } from "@shared/schema";
+import {
+  claimHistory,
+  explorerTotals,
+  faucetBalanceSnapshots,
+  indexerCheckpoints,
+  miningJobs,
+  miningSessions,
+  miningShares,
+  webhookDeliveries,
+  webhookEndpoints,
+  type ClaimHistory,
+  type ClaimTotals,
+  type ExplorerTotals,
+  type FaucetBalanceSnapshot,
+  type IndexedClaim,
+  type IndexerCheckpoint,
+  type InsertMiningJob,
+  type InsertMiningSession,
+  type InsertMiningShare,
+  type InsertVerifiedClaim,
+  type InsertWebhookDelivery,
+  type InsertWebhookEndpoint,
+  type LeaderboardEntry,
+  type MiningJob,
+  type MiningSession,
+  type MiningShare,
+  type MiningSessionStatus,
+  type MiningSessionUpdate,
+  type TimeseriesBucket,
+  type TimeseriesPoint,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, getTableColumns, gte, inArray, lt, lte, sql, sum, type SQL } from "drizzle-orm";
+import { db, type Database } from "./db";
+
+export interface LeaderboardQuery {
+  since?: Date;
+  limit: number;
+  wallet?: string;
+}
+
+export interface LeaderboardResult {
+  entries: LeaderboardEntry[];
+  wallet: LeaderboardEntry | null;
+}
+
+export interface TimeseriesQuery {
+  bucket: TimeseriesBucket;
+  from: Date;
+  to: Date;
+}
+
+export interface ClaimRange {
+  from?: Date;
+  /** Exclusive. */
+  to?: Date;
+}
+
+export interface WebhookDeliveryQuery {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}
+
+export type WebhookDeliveryUpdate = Partial<
+  Pick<WebhookDelivery, "status" | "attempts" | "responseStatus" | "lastError" | "nextAttemptAt" | "deliveredAt">
+>;
+
+export const BUCKET_MS: Record<TimeseriesBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
 
 export interface IStorage {
-  createClaimHistory(claim: InsertClaimHistory): Promise<ClaimHistory>;
+  /** `created` is false when the transaction was already recorded, by the indexer or an earlier submission. */
+  createClaimHistory(claim: InsertVerifiedClaim): Promise<{ claim: ClaimHistory; created: boolean }>;
   getClaimHistory(limit?: number): Promise<ClaimHistory[]>;
   getClaimHistoryByWallet(walletAddress: string): Promise<ClaimHistory[]>;
+  /** Oldest first, fetched in pages so long histories never sit in memory at once. */
+  iterateClaimHistoryByWallet(walletAddress: string, range: ClaimRange): AsyncIterable<ClaimHistory>;
+  getClaimTotals(before?: Date): Promise<ClaimTotals>;
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult>;
+  /** Non-empty buckets only, oldest first; `to` is exclusive. */
+  getClaimTimeseries(query: TimeseriesQuery): Promise<TimeseriesPoint[]>;
+  saveFaucetBalance(balance: string, sampledAt: Date): Promise<void>;
+  getFaucetBalanceHistory(from: Date, to: Date): Promise<FaucetBalanceSnapshot[]>;
+  /** Returns only the claims that were not stored yet, e.g. by a verified submission. */
+  saveIndexedClaims(claims: IndexedClaim[]): Promise<ClaimHistory[]>;
+  deleteClaimsFromBlock(blockNumber: number): Promise<void>;
+  getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined>;
+  setIndexerCheckpoint(checkpoint: IndexerCheckpoint): Promise<void>;
+  getExplorerTotals(name: string): Promise<ExplorerTotals | undefined>;
+  setExplorerTotals(totals: ExplorerTotals): Promise<void>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  getWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  deleteWebhookEndpoint(id: string): Promise<boolean>;
+  /** Skips deliveries whose endpoint and event key were already queued; returns the new ones. */
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  /**
+   * Takes up to `limit` pending deliveries that are due and pushes their next
+   * attempt `leaseMs` out, so no other worker picks them up meanwhile.
+   */
+  leaseDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, update: WebhookDeliveryUpdate): Promise<void>;
+  /** Newest first. */
+  getWebhookDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]>;
+  createMiningSession(session: InsertMiningSession): Promise<MiningSession>;
+  /** The wallet's most recently started session, whatever its status. */
+  getLatestMiningSession(walletAddress: string): Promise<MiningSession | undefined>;
+  /**
+   * Applies `update` only while the session is still in one of `from`, so two
+   * tabs racing on the same session cannot both win; undefined when it lost.
+   */
+  updateMiningSession(
+    id: string,
+    from: readonly MiningSessionStatus[],
+    update: MiningSessionUpdate,
+  ): Promise<MiningSession | undefined>;
+  createMiningJob(job: InsertMiningJob): Promise<MiningJob>;
+  getMiningJob(id: string): Promise<MiningJob | undefined>;
+  getLatestMiningJob(sessionId: string): Promise<MiningJob | undefined>;
+  /**
+   * Saves an accepted share and credits it to its session's share and block
+   * counts; undefined, with nothing credited, when the nonce was already used.
+   */
+  recordMiningShare(share: InsertMiningShare): Promise<MiningSession | undefined>;
+  countMiningShares(jobId: string): Promise<number>;
+}
+
+/** A session's jobs by id and its accepted shares by `jobId:nonce`. */
+interface MiningWork {
+  jobs: Map<string, MiningJob>;
+  shares: Map<string, MiningShare>;
+}
+
+/** Sessions that can no longer take jobs or shares. */
+const FINISHED_SESSION_STATUSES: readonly MiningSessionStatus[] = ["completed", "stopped", "claimed"];
+
+function formatTotals(total: number, claimCount: number): ClaimTotals {
+  return { totalClaimed: total.toFixed(2), claimCount };
 }
 
 export class MemStorage implements IStorage {
   private claimHistory: Map<string, ClaimHistory>;
+  private checkpoints: Map<string, IndexerCheckpoint>;
+  private explorerTotals: Map<string, ExplorerTotals>;
+  private balanceSnapshots: FaucetBalanceSnapshot[];
+  private webhookEndpoints: Map<string, WebhookEndpoint>;
+  private webhookDeliveries: Map<string, WebhookDelivery>;
+  private miningSessions: Map<string, MiningSession>;
+  private miningWork: Map<string, MiningWork>;
+  private miningJobSessions: Map<string, string>;
 
   constructor() {
     this.claimHistory = new Map();
+    this.checkpoints = new Map();
+    this.explorerTotals = new Map();
+    this.balanceSnapshots = [];
+    this.webhookEndpoints = new Map();
+    this.webhookDeliveries = new Map();
+    this.miningSessions = new Map();
+    this.miningWork = new Map();
+    this.miningJobSessions = new Map();
   }
 
-  async createClaimHistory(insertClaim: InsertClaimHistory): Promise<ClaimHistory> {
+  private findByTransactionHash(transactionHash: string): ClaimHistory | undefined {
+    const hash = transactionHash.toLowerCase();
+    return Array.from(this.claimHistory.values()).find(
+      (claim) => claim.transactionHash?.toLowerCase() === hash
+    );
+  }
+
+  async createClaimHistory(insertClaim: InsertVerifiedClaim): Promise<{ claim: ClaimHistory; created: boolean }> {
+    if (insertClaim.transactionHash) {
+      const existing = this.findByTransactionHash(insertClaim.transactionHash);
+      if (existing) return { claim: existing, created: false };
+    }
+
     const id = randomUUID();
     const claim: ClaimHistory = {
       walletAddress: insertClaim.walletAddress,
       amount: insertClaim.amount,
-      transactionHash: insertClaim.transactionHash ?? null,
+      transactionHash: insertClaim.transactionHash?.toLowerCase() ?? null,
+      blockNumber: insertClaim.blockNumber,
+      logIndex: null,
       id,
-      claimedAt: new Date(),
+      claimedAt: insertClaim.claimedAt,
     };
     this.claimHistory.set(id, claim);
-    return claim;
+    return { claim, created: true };
   }
 
   async getClaimHistory(limit: number = 50): Promise<ClaimHistory[]> {
@@ -38,6 +204,675 @@ export class MemStorage implements IStorage {
     );
     return claims.sort((a, b) => b.claimedAt.getTime() - a.claimedAt.getTime());
   }
+
+  async *iterateClaimHistoryByWallet(walletAddress: string, range: ClaimRange): AsyncIterable<ClaimHistory> {
+    const claims = (await this.getClaimHistoryByWallet(walletAddress))
+      .filter((claim) => (!range.from || claim.claimedAt >= range.from) && (!range.to || claim.claimedAt < range.to))
+      .reverse();
+    yield* claims;
+  }
+
+  async getClaimTotals(before?: Date): Promise<ClaimTotals> {
+    const claims = Array.from(this.claimHistory.values()).filter(
+      (claim) => !before || claim.claimedAt < before
+    );
+    const total = claims.reduce((sum, claim) => sum + parseFloat(claim.amount), 0);
+    return formatTotals(total, claims.length);
+  }
+
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult> {
+    const byWallet = new Map<string, { total: number; claimCount: number }>();
+    Array.from(this.claimHistory.values()).forEach((claim) => {
+      if (query.since && claim.claimedAt < query.since) return;
+      const wallet = claim.walletAddress.toLowerCase();
+      const row = byWallet.get(wallet) ?? { total: 0, claimCount: 0 };
+      row.total += parseFloat(claim.amount);
+      row.claimCount += 1;
+      byWallet.set(wallet, row);
+    });
+
+    const sorted = Array.from(byWallet.entries()).sort(
+      ([a, x], [b, y]) => y.total - x.total || y.claimCount - x.claimCount || a.localeCompare(b)
+    );
+
+    // tied wallets share a rank, as with SQL rank()
+    const ranked: LeaderboardEntry[] = [];
+    sorted.forEach(([walletAddress, row], i) => {
+      const previous = ranked[i - 1];
+      const tied = previous &&
+        parseFloat(previous.totalClaimed) === row.total &&
+        previous.claimCount === row.claimCount;
+      ranked.push({
+        rank: tied ? previous.rank : i + 1,
+        walletAddress,
+        totalClaimed: row.total.toFixed(6),
+        claimCount: row.claimCount,
+      });
+    });
+
+    const wallet = query.wallet?.toLowerCase();
+    return {
+      entries: ranked.slice(0, query.limit),
+      wallet: ranked.find((entry) => entry.walletAddress === wallet) ?? null,
+    };
+  }
+
+  async getClaimTimeseries(query: TimeseriesQuery): Promise<TimeseriesPoint[]> {
+    const size = BUCKET_MS[query.bucket];
+    const claims = Array.from(this.claimHistory.values());
+    const firstClaims = new Map<string, number>();
+    claims.forEach((claim) => {
+      const wallet = claim.walletAddress.toLowerCase();
+      const first = firstClaims.get(wallet);
+      if (first === undefined || claim.claimedAt.getTime() < first) {
+        firstClaims.set(wallet, claim.claimedAt.getTime());
+      }
+    });
+
+    const buckets = new Map<number, { claimCount: number; total: number; wallets: Set<string>; newWallets: number }>();
+    const bucketFor = (start: number) => {
+      const bucket = buckets.get(start) ?? { claimCount: 0, total: 0, wallets: new Set<string>(), newWallets: 0 };
+      buckets.set(start, bucket);
+      return bucket;
+    };
+    claims.forEach((claim) => {
+      if (claim.claimedAt < query.from || claim.claimedAt >= query.to) return;
+      const bucket = bucketFor(Math.floor(claim.claimedAt.getTime() / size) * size);
+      bucket.claimCount += 1;
+      bucket.total += parseFloat(claim.amount);
+      bucket.wallets.add(claim.walletAddress.toLowerCase());
+    });
+    firstClaims.forEach((first) => {
+      if (first < query.from.getTime() || first >= query.to.getTime()) return;
+      bucketFor(Math.floor(first / size) * size).newWallets += 1;
+    });
+
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([start, bucket]) => ({
+        bucketStart: new Date(start).toISOString(),
+        claimCount: bucket.claimCount,
+        totalClaimed: bucket.total.toFixed(6),
+        uniqueWallets: bucket.wallets.size,
+        newWallets: bucket.newWallets,
+      }));
+  }
+
+  async saveFaucetBalance(balance: string, sampledAt: Date): Promise<void> {
+    this.balanceSnapshots.push({ id: randomUUID(), balance, sampledAt });
+  }
+
+  async getFaucetBalanceHistory(from: Date, to: Date): Promise<FaucetBalanceSnapshot[]> {
+    return this.balanceSnapshots.filter(
+      (snapshot) => snapshot.sampledAt >= from && snapshot.sampledAt < to
+    );
+  }
+
+  async saveIndexedClaims(claims: IndexedClaim[]): Promise<ClaimHistory[]> {
+    const inserted: ClaimHistory[] = [];
+    for (const indexed of claims) {
+      const existing = this.findByTransactionHash(indexed.transactionHash);
+      const claim = { ...indexed, transactionHash: indexed.transactionHash.toLowerCase(), id: existing?.id ?? randomUUID() };
+      this.claimHistory.set(claim.id, claim);
+      if (!existing) inserted.push(claim);
+    }
+    return inserted;
+  }
+
+  async deleteClaimsFromBlock(blockNumber: number): Promise<void> {
+    Array.from(this.claimHistory.entries()).forEach(([id, claim]) => {
+      if (claim.blockNumber !== null && claim.blockNumber >= blockNumber) {
+        this.claimHistory.delete(id);
+      }
+    });
+  }
+
+  async getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined> {
+    return this.checkpoints.get(name);
+  }
+
+  async setIndexerCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.name, checkpoint);
+  }
+
+  async getExplorerTotals(name: string): Promise<ExplorerTotals | undefined> {
+    return this.explorerTotals.get(name);
+  }
+
+  async setExplorerTotals(totals: ExplorerTotals): Promise<void> {
+    this.explorerTotals.set(totals.name, totals);
+  }
+
+  async createWebhookEndpoint(insert: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const endpoint: WebhookEndpoint = { ...insert, id: randomUUID(), active: true, createdAt: new Date() };
+    this.webhookEndpoints.set(endpoint.id, endpoint);
+    return endpoint;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return Array.from(this.webhookEndpoints.values());
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    Array.from(this.webhookDeliveries.entries()).forEach(([deliveryId, delivery]) => {
+      if (delivery.endpointId === id) this.webhookDeliveries.delete(deliveryId);
+    });
+    return this.webhookEndpoints.delete(id);
+  }
+
+  async createWebhookDeliveries(inserts: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const existing = Array.from(this.webhookDeliveries.values());
+    const created: WebhookDelivery[] = [];
+    for (const insert of inserts) {
+      const duplicate = [...existing, ...created].some(
+        (delivery) => delivery.endpointId === insert.endpointId && delivery.eventKey === insert.eventKey
+      );
+      if (duplicate) continue;
+
+      const now = new Date();
+      const delivery: WebhookDelivery = {
+        ...insert,
+        id: randomUUID(),
+        status: "pending",
+        attempts: 0,
+        responseStatus: null,
+        lastError: null,
+        nextAttemptAt: now,
+        createdAt: now,
+        deliveredAt: null,
+      };
+      this.webhookDeliveries.set(delivery.id, delivery);
+      created.push(delivery);
+    }
+    return created;
+  }
+
+  async leaseDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    const now = Date.now();
+    const due = Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.status === "pending" && delivery.nextAttemptAt.getTime() <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    due.forEach((delivery) => {
+      delivery.nextAttemptAt = new Date(now + leaseMs);
+    });
+    return due.map((delivery) => ({ ...delivery }));
+  }
+
+  async updateWebhookDelivery(id: string, update: WebhookDeliveryUpdate): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery) this.webhookDeliveries.set(id, { ...delivery, ...update });
+  }
+
+  async getWebhookDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => !query.endpointId || delivery.endpointId === query.endpointId)
+      .filter((delivery) => !query.status || delivery.status === query.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, query.limit);
+  }
+
+  async createMiningSession(insert: InsertMiningSession): Promise<MiningSession> {
+    const session: MiningSession = {
+      ...insert,
+      id: randomUUID(),
+      status: "mining",
+      activeMs: 0,
+      blocksFound: 0,
+      sharesFound: 0,
+      updatedAt: insert.startedAt,
+      endedAt: null,
+    };
+    this.miningSessions.set(session.id, session);
+    return { ...session };
+  }
+
+  async getLatestMiningSession(walletAddress: string): Promise<MiningSession | undefined> {
+    const wallet = walletAddress.toLowerCase();
+    const latest = Array.from(this.miningSessions.values())
+      .filter((session) => session.walletAddress.toLowerCase() === wallet)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0];
+    return latest && { ...latest };
+  }
+
+  async updateMiningSession(
+    id: string,
+    from: readonly MiningSessionStatus[],
+    update: MiningSessionUpdate,
+  ): Promise<MiningSession | undefined> {
+    const session = this.miningSessions.get(id);
+    if (!session || !from.includes(session.status)) return undefined;
+    const updated = { ...session, ...update, updatedAt: new Date() };
+    this.miningSessions.set(id, updated);
+    if (FINISHED_SESSION_STATUSES.includes(updated.status)) this.dropMiningWork(id);
+    return { ...updated };
+  }
+
+  async createMiningJob(insert: InsertMiningJob): Promise<MiningJob> {
+    const job: MiningJob = { ...insert, id: randomUUID() };
+    let work = this.miningWork.get(job.sessionId);
+    if (!work) {
+      work = { jobs: new Map(), shares: new Map() };
+      this.miningWork.set(job.sessionId, work);
+    }
+    work.jobs.set(job.id, job);
+    this.miningJobSessions.set(job.id, job.sessionId);
+    return job;
+  }
+
+  async getMiningJob(id: string): Promise<MiningJob | undefined> {
+    const sessionId = this.miningJobSessions.get(id);
+    return sessionId === undefined ? undefined : this.miningWork.get(sessionId)?.jobs.get(id);
+  }
+
+  async getLatestMiningJob(sessionId: string): Promise<MiningJob | undefined> {
+    // jobs are inserted in creation order
+    const jobs = Array.from(this.miningWork.get(sessionId)?.jobs.values() ?? []);
+    return jobs[jobs.length - 1];
+  }
+
+  async recordMiningShare(insert: InsertMiningShare): Promise<MiningSession | undefined> {
+    const session = this.miningSessions.get(insert.sessionId);
+    const work = this.miningWork.get(insert.sessionId);
+    const key = `${insert.jobId}:${insert.nonce}`;
+    if (!session || !work || work.shares.has(key)) return undefined;
+
+    work.shares.set(key, { ...insert, id: randomUUID(), submittedAt: new Date() });
+    const updated = {
+      ...session,
+      sharesFound: session.sharesFound + 1,
+      blocksFound: session.blocksFound + (insert.block ? 1 : 0),
+      updatedAt: new Date(),
+    };
+    this.miningSessions.set(updated.id, updated);
+    return { ...updated };
+  }
+
+  async countMiningShares(jobId: string): Promise<number> {
+    const sessionId = this.miningJobSessions.get(jobId);
+    const shares = sessionId === undefined ? [] : Array.from(this.miningWork.get(sessionId)?.shares.values() ?? []);
+    return shares.filter((share) => share.jobId === jobId).length;
+  }
+
+  private dropMiningWork(sessionId: string) {
+    this.miningWork.get(sessionId)?.jobs.forEach((_, jobId) => this.miningJobSessions.delete(jobId));
+    this.miningWork.delete(sessionId);
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createClaimHistory(insertClaim: InsertVerifiedClaim): Promise<{ claim: ClaimHistory; created: boolean }> {
+    // lowercased like MemStorage, so the unique index treats hashes differing in case as one
+    const transactionHash = insertClaim.transactionHash!.toLowerCase();
+    const [claim] = await this.db
+      .insert(claimHistory)
+      .values({ ...insertClaim, transactionHash })
+      .onConflictDoNothing({ target: claimHistory.transactionHash })
+      .returning();
+    if (claim) return { claim, created: true };
+
+    // the indexer (or an earlier submission) already recorded this transaction
+    const [existing] = await this.db
+      .select()
+      .from(claimHistory)
+      .where(eq(claimHistory.transactionHash, transactionHash));
+    return { claim: existing, created: false };
+  }
+
+  async getClaimHistory(limit: number = 50): Promise<ClaimHistory[]> {
+    return this.db
+      .select()
+      .from(claimHistory)
+      .orderBy(desc(claimHistory.claimedAt))
+      .limit(limit);
+  }
+
+  async getClaimHistoryByWallet(walletAddress: string): Promise<ClaimHistory[]> {
+    // matches the lower(wallet_address) expression index
+    return this.db
+      .select()
+      .from(claimHistory)
+      .where(eq(sql`lower(${claimHistory.walletAddress})`, walletAddress.toLowerCase()))
+      .orderBy(desc(claimHistory.claimedAt));
+  }
+
+  async *iterateClaimHistoryByWallet(walletAddress: string, range: ClaimRange): AsyncIterable<ClaimHistory> {
+    const pageSize = 500;
+    let afterId: string | undefined;
+
+    while (true) {
+      // keyset pagination on (claimed_at, id) stays fast however deep the export goes; the
+      // cursor row is looked up in SQL because JS dates drop claimed_at's microseconds
+      const page = await this.db
+        .select()
+        .from(claimHistory)
+        .where(and(
+          eq(sql`lower(${claimHistory.walletAddress})`, walletAddress.toLowerCase()),
+          range.from ? gte(claimHistory.claimedAt, range.from) : undefined,
+          range.to ? lt(claimHistory.claimedAt, range.to) : undefined,
+          afterId
+            ? sql`(${claimHistory.claimedAt}, ${claimHistory.id}) > (select c.claimed_at, c.id from ${claimHistory} c where c.id = ${afterId})`
+            : undefined,
+        ))
+        .orderBy(asc(claimHistory.claimedAt), asc(claimHistory.id))
+        .limit(pageSize);
+
+      yield* page;
+      if (page.length < pageSize) return;
+      afterId = page[page.length - 1].id;
+    }
+  }
+
+  async getClaimTotals(before?: Date): Promise<ClaimTotals> {
+    const [row] = await this.db
+      .select({ total: sum(claimHistory.amount), claimCount: count() })
+      .from(claimHistory)
+      .where(before ? lt(claimHistory.claimedAt, before) : undefined);
+    return formatTotals(parseFloat(row?.total ?? "0"), row?.claimCount ?? 0);
+  }
+
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult> {
+    const wallet = sql<string>`lower(${claimHistory.walletAddress})`;
+    const ranked = this.db.$with("ranked").as(
+      this.db
+        .select({
+          walletAddress: wallet.as("wallet_address"),
+          totalClaimed: sql<string>`sum(${claimHistory.amount})::text`.as("total_claimed"),
+          claimCount: sql<number>`count(*)::int`.as("claim_count"),
+          rank: sql<number>`(rank() over (order by sum(${claimHistory.amount}) desc, count(*) desc))::int`.as("rank"),
+        })
+        .from(claimHistory)
+        .where(query.since ? gte(claimHistory.claimedAt, query.since) : undefined)
+        .groupBy(wallet)
+    );
+
+    const entries = await this.db
+      .with(ranked)
+      .select()
+      .from(ranked)
+      .orderBy(asc(ranked.rank), asc(ranked.walletAddress))
+      .limit(query.limit);
+
+    if (!query.wallet) return { entries, wallet: null };
+
+    const [walletEntry] = await this.db
+      .with(ranked)
+      .select()
+      .from(ranked)
+      .where(eq(ranked.walletAddress, query.wallet.toLowerCase()));
+    return { entries, wallet: walletEntry ?? null };
+  }
+
+  async getClaimTimeseries(query: TimeseriesQuery): Promise<TimeseriesPoint[]> {
+    // inlined rather than bound so the SELECT and GROUP BY expressions match; bucket is an enum.
+    // Truncating in UTC keeps buckets off the session time zone, so they can be labelled Z
+    const truncate = (column: SQL) => sql`date_trunc('${sql.raw(query.bucket)}', ${column} at time zone 'UTC')`;
+    const iso = (value: SQL) => sql<string>`to_char(${value}, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+
+    const bucketStart = truncate(sql`${claimHistory.claimedAt}`);
+    const rows = await this.db
+      .select({
+        bucketStart: iso(bucketStart),
+        claimCount: sql<number>`count(*)::int`,
+        totalClaimed: sql<string>`sum(${claimHistory.amount})::text`,
+        uniqueWallets: sql<number>`count(distinct lower(${claimHistory.walletAddress}))::int`,
+      })
+      .from(claimHistory)
+      .where(and(gte(claimHistory.claimedAt, query.from), lt(claimHistory.claimedAt, query.to)))
+      .groupBy(bucketStart)
+      .orderBy(bucketStart);
+
+    const firstClaims = this.db.$with("first_claims").as(
+      this.db
+        .select({ firstClaimedAt: sql<Date>`min(${claimHistory.claimedAt})`.as("first_claimed_at") })
+        .from(claimHistory)
+        .groupBy(sql`lower(${claimHistory.walletAddress})`)
+    );
+    const firstBucket = truncate(sql`${firstClaims.firstClaimedAt}`);
+    const newWallets = await this.db
+      .with(firstClaims)
+      .select({ bucketStart: iso(firstBucket), newWallets: sql<number>`count(*)::int` })
+      .from(firstClaims)
+      .where(and(
+        gte(firstClaims.firstClaimedAt, query.from),
+        lt(firstClaims.firstClaimedAt, query.to),
+      ))
+      .groupBy(firstBucket);
+
+    const newByBucket = new Map(newWallets.map((row) => [row.bucketStart, row.newWallets]));
+    return rows.map((row) => ({ ...row, newWallets: newByBucket.get(row.bucketStart) ?? 0 }));
+  }
+
+  async saveFaucetBalance(balance: string, sampledAt: Date): Promise<void> {
+    await this.db.insert(faucetBalanceSnapshots).values({ balance, sampledAt });
+  }
+
+  async getFaucetBalanceHistory(from: Date, to: Date): Promise<FaucetBalanceSnapshot[]> {
+    return this.db
+      .select()
+      .from(faucetBalanceSnapshots)
+      .where(and(gte(faucetBalanceSnapshots.sampledAt, from), lt(faucetBalanceSnapshots.sampledAt, to)))
+      .orderBy(asc(faucetBalanceSnapshots.sampledAt));
+  }
+
+  async saveIndexedClaims(claims: IndexedClaim[]): Promise<ClaimHistory[]> {
+    if (claims.length === 0) return [];
+    const rows = await this.db
+      .insert(claimHistory)
+      .values(claims.map((claim) => ({ ...claim, transactionHash: claim.transactionHash.toLowerCase() })))
+      .onConflictDoUpdate({
+        target: claimHistory.transactionHash,
+        set: {
+          walletAddress: sql`excluded.wallet_address`,
+          amount: sql`excluded.amount`,
+          blockNumber: sql`excluded.block_number`,
+          logIndex: sql`excluded.log_index`,
+          claimedAt: sql`excluded.claimed_at`,
+        },
+      })
+      // xmax is only zero on rows this statement inserted rather than updated
+      .returning({ ...getTableColumns(claimHistory), inserted: sql<boolean>`xmax = 0` });
+    return rows.filter((row) => row.inserted).map(({ inserted, ...claim }) => claim);
+  }
+
+  async deleteClaimsFromBlock(blockNumber: number): Promise<void> {
+    await this.db.delete(claimHistory).where(gte(claimHistory.blockNumber, blockNumber));
+  }
+
+  async getIndexerCheckpoint(name: string): Promise<IndexerCheckpoint | undefined> {
+    const [checkpoint] = await this.db
+      .select({
+        name: indexerCheckpoints.name,
+        blockNumber: indexerCheckpoints.blockNumber,
+        blockHash: indexerCheckpoints.blockHash,
+      })
+      .from(indexerCheckpoints)
+      .where(eq(indexerCheckpoints.name, name));
+    return checkpoint;
+  }
+
+  async setIndexerCheckpoint(checkpoint: IndexerCheckpoint): Promise<void> {
+    await this.db
+      .insert(indexerCheckpoints)
+      .values(checkpoint)
+      .onConflictDoUpdate({
+        target: indexerCheckpoints.name,
+        set: {
+          blockNumber: checkpoint.blockNumber,
+          blockHash: checkpoint.blockHash,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getExplorerTotals(name: string): Promise<ExplorerTotals | undefined> {
+    const [totals] = await this.db
+      .select({
+        name: explorerTotals.name,
+        totalClaimed: explorerTotals.totalClaimed,
+        claimCount: explorerTotals.claimCount,
+        highWaterBlock: explorerTotals.highWaterBlock,
+        highWaterHashes: explorerTotals.highWaterHashes,
+      })
+      .from(explorerTotals)
+      .where(eq(explorerTotals.name, name));
+    return totals;
+  }
+
+  async setExplorerTotals(totals: ExplorerTotals): Promise<void> {
+    await this.db
+      .insert(explorerTotals)
+      .values(totals)
+      .onConflictDoUpdate({
+        target: explorerTotals.name,
+        set: {
+          totalClaimed: totals.totalClaimed,
+          claimCount: totals.claimCount,
+          highWaterBlock: totals.highWaterBlock,
+          highWaterHashes: totals.highWaterHashes,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [created] = await this.db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return this.db.select().from(webhookEndpoints).orderBy(asc(webhookEndpoints.createdAt));
+  }
+
+  async deleteWebhookEndpoint(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .returning({ id: webhookEndpoints.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return this.db
+      .insert(webhookDeliveries)
+      .values(deliveries)
+      .onConflictDoNothing({ target: [webhookDeliveries.endpointId, webhookDeliveries.eventKey] })
+      .returning();
+  }
+
+  async leaseDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    // SKIP LOCKED lets several server instances drain the queue without overlap
+    const due = this.db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async updateWebhookDelivery(id: string, update: WebhookDeliveryUpdate): Promise<void> {
+    await this.db.update(webhookDeliveries).set(update).where(eq(webhookDeliveries.id, id));
+  }
+
+  async getWebhookDeliveries(query: WebhookDeliveryQuery): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        query.endpointId ? eq(webhookDeliveries.endpointId, query.endpointId) : undefined,
+        query.status ? eq(webhookDeliveries.status, query.status) : undefined,
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(query.limit);
+  }
+
+  async createMiningSession(session: InsertMiningSession): Promise<MiningSession> {
+    const [created] = await this.db
+      .insert(miningSessions)
+      .values({ ...session, updatedAt: session.startedAt })
+      .returning();
+    return created;
+  }
+
+  async getLatestMiningSession(walletAddress: string): Promise<MiningSession | undefined> {
+    const [latest] = await this.db
+      .select()
+      .from(miningSessions)
+      .where(eq(sql`lower(${miningSessions.walletAddress})`, walletAddress.toLowerCase()))
+      .orderBy(desc(miningSessions.startedAt))
+      .limit(1);
+    return latest;
+  }
+
+  async updateMiningSession(
+    id: string,
+    from: readonly MiningSessionStatus[],
+    update: MiningSessionUpdate,
+  ): Promise<MiningSession | undefined> {
+    const [updated] = await this.db
+      .update(miningSessions)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(miningSessions.id, id), inArray(miningSessions.status, [...from])))
+      .returning();
+    return updated;
+  }
+
+  async createMiningJob(job: InsertMiningJob): Promise<MiningJob> {
+    const [created] = await this.db.insert(miningJobs).values(job).returning();
+    return created;
+  }
+
+  async getMiningJob(id: string): Promise<MiningJob | undefined> {
+    const [job] = await this.db.select().from(miningJobs).where(eq(miningJobs.id, id));
+    return job;
+  }
+
+  async getLatestMiningJob(sessionId: string): Promise<MiningJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(miningJobs)
+      .where(eq(miningJobs.sessionId, sessionId))
+      .orderBy(desc(miningJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async recordMiningShare(share: InsertMiningShare): Promise<MiningSession | undefined> {
+    return this.db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(miningShares)
+        .values(share)
+        .onConflictDoNothing({ target: [miningShares.jobId, miningShares.nonce] })
+        .returning({ id: miningShares.id });
+      if (inserted.length === 0) return undefined;
+
+      const [session] = await tx
+        .update(miningSessions)
+        .set({
+          sharesFound: sql`${miningSessions.sharesFound} + 1`,
+          blocksFound: sql`${miningSessions.blocksFound} + ${share.block ? 1 : 0}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(miningSessions.id, share.sessionId))
+        .returning();
+      return session;
+    });
+  }
+
+  async countMiningShares(jobId: string): Promise<number> {
+    const [row] = await this.db.select({ value: count() }).from(miningShares).where(eq(miningShares.jobId, jobId));
+    return row?.value ?? 0;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
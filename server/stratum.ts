@@ -0,0 +1,252 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { getAddress, isAddress, isAddressEqual, type Address, type Hex } from "viem";
+import { WebSocket, WebSocketServer } from "ws";
+import { z } from "zod";
+import type { MiningJobView, ShareRejectionReason } from "@shared/schema";
+import {
+  stratumErrorCodes,
+  type StratumErrorTriple,
+  type StratumNotification,
+  type StratumRequestId,
+  type StratumResponse,
+} from "@shared/stratum";
+import { MiningPoolError, toJobView, type MiningPool } from "./mining-pool";
+import type { SessionWalletResolver } from "./auth";
+
+const HEARTBEAT_MS = 30000;
+/** Jobs are replaced this long before they expire, so in-flight shares still land. */
+const JOB_REFRESH_LEAD_MS = 5000;
+/** How often an authorized miner without a running session is checked again. */
+const IDLE_RETRY_MS = 2000;
+
+const requestSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  method: z.string(),
+  params: z.array(z.unknown()).default([]),
+});
+
+const authorizeParamsSchema = z.tuple([z.string()]).rest(z.unknown());
+const submitParamsSchema = z.tuple([
+  z.string(),
+  z.string(),
+  z.number().int().min(0).max(Number.MAX_SAFE_INTEGER),
+]);
+
+const REJECTION_CODES: Record<ShareRejectionReason, number> = {
+  unknown_job: stratumErrorCodes.jobNotFound,
+  stale_job: stratumErrorCodes.jobNotFound,
+  duplicate_share: stratumErrorCodes.duplicateShare,
+  low_difficulty: stratumErrorCodes.lowDifficulty,
+};
+
+class StratumRequestError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StratumRequestError";
+  }
+}
+
+interface Miner {
+  ws: WebSocket;
+  /** The wallet signed in on the upgrade request; the only one the miner may authorize as. */
+  signedIn: Address | null;
+  subscriptionId: string | null;
+  wallet: Address | null;
+  jobId: string | null;
+  difficulty: number | null;
+  /** The last `client.show_message`, so a waiting miner hears it once. */
+  notice: string | null;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Serves the Stratum-style protocol in `@shared/stratum` for the browser
+ * miner and external tools. Jobs come from the same `MiningPool` as the HTTP
+ * routes: a miner is pushed a fresh one shortly before the current one
+ * expires and whenever vardiff retargets, and an authorized miner whose
+ * wallet has no running session is told so and polled until it does.
+ *
+ * Like the HTTP mining routes, it needs a SIWE session: the upgrade request's
+ * cookie names the one wallet the connection may authorize as.
+ */
+export class StratumServer {
+  private wss = new WebSocketServer({ noServer: true, maxPayload: 16 * 1024 });
+  private alive = new WeakSet<WebSocket>();
+
+  constructor(
+    httpServer: Server,
+    private path: string,
+    private pool: MiningPool,
+    private sessionWallet: SessionWalletResolver,
+  ) {
+    httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== this.path) return;
+      this.sessionWallet(req)
+        .then((signedIn) => this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit("connection", ws, signedIn)))
+        .catch((error) => {
+          console.error("Error reading stratum session:", error);
+          socket.destroy();
+        });
+    });
+
+    this.wss.on("connection", (ws: WebSocket, signedIn: Address | null) => {
+      const miner: Miner = {
+        ws,
+        signedIn,
+        subscriptionId: null,
+        wallet: null,
+        jobId: null,
+        difficulty: null,
+        notice: null,
+      };
+      this.alive.add(ws);
+      ws.on("pong", () => this.alive.add(ws));
+      ws.on("message", (data) => this.handle(miner, data.toString()));
+      ws.on("close", () => clearTimeout(miner.timer));
+      ws.on("error", (error) => console.error("Stratum socket error:", error));
+    });
+
+    setInterval(() => {
+      this.wss.clients.forEach((ws) => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_MS).unref();
+  }
+
+  get clientCount(): number {
+    return this.wss.clients.size;
+  }
+
+  private async handle(miner: Miner, data: string) {
+    let id: StratumRequestId | null = null;
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        throw new StratumRequestError(stratumErrorCodes.other, "Parse error");
+      }
+      const request = requestSchema.safeParse(json);
+      if (!request.success) throw new StratumRequestError(stratumErrorCodes.other, request.error.message);
+      id = request.data.id;
+      const result = await this.dispatch(miner, request.data.method, request.data.params);
+      this.respond(miner, id, result, null);
+    } catch (error: any) {
+      if (error instanceof StratumRequestError) {
+        this.respond(miner, id, null, [error.code, error.message, null]);
+        return;
+      }
+      console.error("Error handling stratum request:", error);
+      this.respond(miner, id, null, [stratumErrorCodes.other, error.message, null]);
+    }
+  }
+
+  private async dispatch(miner: Miner, method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "mining.subscribe": {
+        miner.subscriptionId ??= randomUUID();
+        return [
+          [
+            ["mining.set_difficulty", miner.subscriptionId],
+            ["mining.notify", miner.subscriptionId],
+          ],
+          "",
+          0,
+        ];
+      }
+
+      case "mining.authorize": {
+        if (!miner.subscriptionId) throw new StratumRequestError(stratumErrorCodes.notSubscribed, "Not subscribed");
+        const parsed = authorizeParamsSchema.safeParse(params);
+        if (!parsed.success || !isAddress(parsed.data[0])) {
+          throw new StratumRequestError(stratumErrorCodes.unauthorized, "Worker name must be a wallet address");
+        }
+        if (!miner.signedIn) {
+          throw new StratumRequestError(stratumErrorCodes.unauthorized, "Sign in with your wallet first");
+        }
+        if (!isAddressEqual(parsed.data[0], miner.signedIn)) {
+          throw new StratumRequestError(stratumErrorCodes.unauthorized, "Signed-in wallet does not match this worker");
+        }
+        miner.wallet = getAddress(parsed.data[0]);
+        miner.notice = null;
+        // answer first: clients expect the authorize result before the first job
+        setImmediate(() => this.refresh(miner));
+        return true;
+      }
+
+      case "mining.submit": {
+        const parsed = submitParamsSchema.safeParse(params);
+        if (!parsed.success) throw new StratumRequestError(stratumErrorCodes.other, parsed.error.message);
+        const [worker, jobId, nonce] = parsed.data;
+        if (!miner.wallet || !isAddress(worker) || !isAddressEqual(worker, miner.wallet)) {
+          throw new StratumRequestError(stratumErrorCodes.unauthorized, "Unauthorized worker");
+        }
+
+        const result = await this.pool.submitShare(miner.wallet, jobId, nonce);
+        if (result.job && result.job.id !== miner.jobId) {
+          this.sendJob(miner, result.job);
+        } else if (!result.accepted && result.reason === "stale_job" && !result.job && jobId === miner.jobId) {
+          // the miner's own job lapsed; shares on older jobs are just late
+          this.refresh(miner);
+        }
+        if (!result.accepted) throw new StratumRequestError(REJECTION_CODES[result.reason], result.message);
+        return true;
+      }
+
+      default:
+        throw new StratumRequestError(stratumErrorCodes.other, `Unknown method ${method}`);
+    }
+  }
+
+  /** Issues the miner a new job, or tells it why there is none and tries again shortly. */
+  private async refresh(miner: Miner) {
+    clearTimeout(miner.timer);
+    if (!miner.wallet || miner.ws.readyState !== WebSocket.OPEN) return;
+    try {
+      this.sendJob(miner, toJobView(await this.pool.issueJob(miner.wallet)));
+    } catch (error: any) {
+      if (!(error instanceof MiningPoolError)) console.error("Error issuing stratum job:", error);
+      if (miner.notice !== error.message) {
+        miner.notice = error.message;
+        this.notify(miner, { id: null, method: "client.show_message", params: [error.message] });
+      }
+      miner.timer = setTimeout(() => this.refresh(miner), IDLE_RETRY_MS);
+    }
+  }
+
+  private sendJob(miner: Miner, job: MiningJobView) {
+    clearTimeout(miner.timer);
+    miner.jobId = job.id;
+    miner.notice = null;
+    if (miner.difficulty !== job.shareDifficulty) {
+      miner.difficulty = job.shareDifficulty;
+      this.notify(miner, { id: null, method: "mining.set_difficulty", params: [job.shareDifficulty] });
+    }
+    this.notify(miner, { id: null, method: "mining.notify", params: [job.id, job.seed as Hex, job.blockDifficulty, true] });
+    const refreshIn = new Date(job.expiresAt).getTime() - Date.now() - JOB_REFRESH_LEAD_MS;
+    miner.timer = setTimeout(() => this.refresh(miner), Math.max(IDLE_RETRY_MS, refreshIn));
+  }
+
+  private respond(miner: Miner, id: StratumRequestId | null, result: unknown, error: StratumErrorTriple | null) {
+    const response: StratumResponse = { id, result, error };
+    this.send(miner, response);
+  }
+
+  private notify(miner: Miner, notification: StratumNotification) {
+    this.send(miner, notification);
+  }
+
+  private send(miner: Miner, message: StratumResponse | StratumNotification) {
+    if (miner.ws.readyState === WebSocket.OPEN) miner.ws.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,182 @@
+import { createHmac, randomBytes } from "crypto";
+import type { WebhookDelivery, WebhookEvent } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface WebhookDispatcherOptions {
+  /** Attempts before a delivery is marked failed. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on every further attempt. */
+  retryBaseMs?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+export interface WebhookPayload<T = unknown> {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  data: T;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signature sent in `X-ArcMiner-Signature`: HMAC-SHA256 over
+ * `<timestamp>.<raw body>` with the endpoint secret, as `sha256=<hex>`.
+ * Receivers should recompute it and reject stale timestamps.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Queues events for every subscribed endpoint and delivers them from storage,
+ * so pending retries survive a restart. Each delivery is POSTed until it gets
+ * a 2xx, waiting `retryBaseMs * 2^n` between attempts.
+ */
+export class WebhookDispatcher {
+  private maxAttempts: number;
+  private retryBaseMs: number;
+  private timeoutMs: number;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+
+  constructor(
+    private storage: IStorage,
+    options: WebhookDispatcherOptions = {},
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.retryBaseMs = options.retryBaseMs ?? 30000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.batchSize = options.batchSize ?? 20;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.drain(), this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queues `data` for every active endpoint subscribed to `event`. `key`
+   * identifies the occurrence, so emitting the same one twice is a no-op.
+   */
+  async emit(event: WebhookEvent, key: string, data: unknown): Promise<void> {
+    const endpoints = (await this.storage.getWebhookEndpoints()).filter(
+      (endpoint) => endpoint.active && endpoint.events.includes(event)
+    );
+    if (endpoints.length === 0) return;
+
+    const createdAt = new Date().toISOString();
+    const queued = await this.storage.createWebhookDeliveries(
+      endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        event,
+        eventKey: `${event}:${key}`,
+        payload: { type: event, createdAt, data },
+      }))
+    );
+    if (queued.length > 0) this.drain();
+  }
+
+  /** Sends everything that is due; overlapping calls share one run. */
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drainDue()
+        .catch((error) => console.error("Webhook delivery run failed:", error))
+        .finally(() => {
+          this.draining = null;
+        });
+    }
+    return this.draining;
+  }
+
+  private async drainDue(): Promise<void> {
+    const endpoints = new Map((await this.storage.getWebhookEndpoints()).map((endpoint) => [endpoint.id, endpoint]));
+
+    while (true) {
+      const due = await this.storage.leaseDueWebhookDeliveries(this.batchSize, this.timeoutMs * 2);
+      if (due.length === 0) return;
+
+      await Promise.all(due.map((delivery) => {
+        const endpoint = endpoints.get(delivery.endpointId);
+        if (!endpoint || !endpoint.active) {
+          return this.storage.updateWebhookDelivery(delivery.id, { status: "failed", lastError: "Endpoint disabled" });
+        }
+        return this.deliver(delivery, endpoint.url, endpoint.secret);
+      }));
+      if (due.length < this.batchSize) return;
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery, url: string, secret: string): Promise<void> {
+    const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ArcMiner-Webhooks/1",
+          "X-ArcMiner-Event": delivery.event,
+          "X-ArcMiner-Delivery": delivery.id,
+          "X-ArcMiner-Timestamp": String(timestamp),
+          "X-ArcMiner-Signature": signWebhook(secret, timestamp, body),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      responseStatus = res.status;
+      if (res.ok) {
+        await this.storage.updateWebhookDelivery(delivery.id, {
+          status: "succeeded",
+          attempts,
+          responseStatus,
+          lastError: null,
+          deliveredAt: new Date(),
+        });
+        return;
+      }
+      lastError = `HTTP ${res.status}`;
+    } catch (error: any) {
+      lastError = error?.name === "TimeoutError" ? `Timed out after ${this.timeoutMs}ms` : String(error?.message ?? error);
+    }
+
+    const exhausted = attempts >= this.maxAttempts;
+    await this.storage.updateWebhookDelivery(delivery.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + this.retryBaseMs * 2 ** (attempts - 1)),
+    });
+  }
+}
+
+/** Builds the dispatcher from `WEBHOOK_*` environment variables. */
+export function createWebhookDispatcherFromEnv(storage: IStorage): WebhookDispatcher {
+  const int = (name: string) => (process.env[name] ? parseInt(process.env[name]!, 10) : undefined);
+  return new WebhookDispatcher(storage, {
+    maxAttempts: int("WEBHOOK_MAX_ATTEMPTS"),
+    retryBaseMs: int("WEBHOOK_RETRY_BASE_MS"),
+    timeoutMs: int("WEBHOOK_TIMEOUT_MS"),
+  });
+}
@@ -0,0 +1,11 @@
+export type CsvValue = string | number | null | undefined;
+
+/** Quotes a value per RFC 4180 when it holds a comma, quote or line break. */
+export function csvCell(value: CsvValue): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: CsvValue[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
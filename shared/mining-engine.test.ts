@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MiningEngine, MiningEngineError, type MiningEvent } from "./mining-engine";
+import type { MiningSessionView } from "./schema";
+
+const DURATION_MS = 60_000;
+
+function setup() {
+  let now = 1_000_000;
+  let seed = 0;
+  const engine = new MiningEngine({
+    durationMs: DURATION_MS,
+    reward: 200,
+    clock: () => now,
+    random: (length) => new Uint8Array(length).fill(++seed),
+  });
+  const events: MiningEvent["type"][] = [];
+  engine.subscribe((event) => events.push(event.type));
+  return { engine, events, advance: (ms: number) => (now += ms), now: () => now };
+}
+
+const share = { nonce: 1, hash: "0x00" as const, block: false };
+
+test("runs a session from start to completion, with pauses not counted", () => {
+  const { engine, events, advance } = setup();
+
+  engine.start();
+  assert.equal(engine.state.status, "mining");
+  advance(20_000);
+  engine.pause();
+  advance(30_000);
+  assert.equal(engine.snapshot().elapsedMs, 20_000);
+
+  engine.resume();
+  advance(39_999);
+  engine.tick();
+  assert.equal(engine.state.status, "mining");
+  advance(1);
+  engine.tick();
+
+  assert.equal(engine.state.status, "completed");
+  assert.equal(engine.snapshot().pendingReward, 200);
+  assert.deepEqual(events, ["started", "paused", "resumed", "completed"]);
+});
+
+test("draws a fresh seed on start and resume", () => {
+  const { engine } = setup();
+
+  engine.start();
+  const started = engine.state.seed;
+  engine.pause();
+  engine.resume();
+
+  assert.notEqual(started, null);
+  assert.notEqual(engine.state.seed, started);
+});
+
+test("stop discards the session's progress and shares", () => {
+  const { engine, advance } = setup();
+
+  engine.start();
+  engine.recordShare(share);
+  advance(10_000);
+  engine.stop();
+
+  assert.equal(engine.state.status, "idle");
+  assert.equal(engine.state.sharesFound, 0);
+  assert.equal(engine.snapshot().elapsedMs, 0);
+});
+
+test("counts shares while mining and just after completion, but not when paused", () => {
+  const { engine, advance } = setup();
+
+  engine.start();
+  engine.recordShare({ ...share, block: true });
+  engine.pause();
+  engine.recordShare(share);
+  engine.resume();
+  advance(DURATION_MS);
+  engine.tick();
+  engine.recordShare(share);
+
+  assert.equal(engine.state.sharesFound, 2);
+  assert.equal(engine.state.blocksFound, 1);
+});
+
+test("claiming settles into cooldown until it runs out", () => {
+  const { engine, events, advance, now } = setup();
+
+  engine.start();
+  advance(DURATION_MS);
+  engine.tick();
+  engine.setCooldown(now() + 5_000);
+  engine.claimed();
+  assert.equal(engine.state.status, "cooldown");
+  assert.throws(() => engine.start(), MiningEngineError);
+
+  advance(5_000);
+  engine.tick();
+  assert.equal(engine.state.status, "idle");
+  assert.deepEqual(events.slice(-2), ["claimed", "ready"]);
+});
+
+test("restores a saved session with its elapsed time and counts", () => {
+  const { engine } = setup();
+  const session: MiningSessionView = {
+    id: "session-1",
+    status: "paused",
+    durationMs: DURATION_MS,
+    elapsedMs: 15_000,
+    remainingMs: DURATION_MS - 15_000,
+    blocksFound: 1,
+    sharesFound: 3,
+    startedAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+    endedAt: null,
+  };
+
+  engine.restore(session);
+
+  assert.equal(engine.state.status, "paused");
+  assert.equal(engine.snapshot().elapsedMs, 15_000);
+  assert.equal(engine.state.sharesFound, 3);
+});
+
+test("rejects commands that do not fit the current status", () => {
+  const { engine, advance } = setup();
+  const rejects = (command: () => unknown, type: string) =>
+    assert.throws(command, (error) => error instanceof MiningEngineError && error.command === type);
+
+  rejects(() => engine.pause(), "pause");
+  rejects(() => engine.resume(), "resume");
+  rejects(() => engine.stop(), "stop");
+  rejects(() => engine.claimed(), "claimed");
+
+  engine.start();
+  rejects(() => engine.start(), "start");
+  rejects(() => engine.resume(), "resume");
+  rejects(() => engine.claimed(), "claimed");
+
+  engine.pause();
+  rejects(() => engine.pause(), "pause");
+
+  engine.resume();
+  advance(DURATION_MS);
+  engine.tick();
+  rejects(() => engine.pause(), "pause");
+  rejects(() => engine.start(), "start");
+});
@@ -0,0 +1,340 @@
+import { bytesToHex, type Hex } from "viem";
+import type { FoundNonce } from "./pow";
+import { MINING_SESSION_MS, type MiningSessionView } from "./schema";
+
+export const miningEngineStatuses = ["idle", "mining", "paused", "completed", "cooldown"] as const;
+export type MiningEngineStatus = (typeof miningEngineStatuses)[number];
+
+export interface MiningEngineState {
+  status: MiningEngineStatus;
+  durationMs: number;
+  /** Mining time banked before the current run. */
+  activeMs: number;
+  /** Clock time the current run began; null unless mining. */
+  resumedAt: number | null;
+  /** Seed for work done without a pool, fresh on every start and resume. */
+  seed: Hex | null;
+  sharesFound: number;
+  blocksFound: number;
+  /** When the wallet may start again; the engine sits in `cooldown` until then once idle. */
+  cooldownUntil: number | null;
+}
+
+export type MiningCommand =
+  | { type: "start"; durationMs?: number }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "stop" }
+  | { type: "share"; share: FoundNonce }
+  | { type: "restore"; session: MiningSessionView }
+  | { type: "claimed" }
+  | { type: "cooldown"; until: number | null }
+  | { type: "tick" };
+
+export type MiningEvent =
+  | { type: "started"; at: number; durationMs: number }
+  | { type: "paused"; at: number }
+  | { type: "resumed"; at: number }
+  | { type: "stopped"; at: number }
+  | { type: "completed"; at: number }
+  | { type: "share"; at: number; share: FoundNonce }
+  | { type: "restored"; at: number; status: MiningEngineStatus; startedAt: number }
+  | { type: "claimed"; at: number }
+  | { type: "cooldown"; at: number; until: number }
+  | { type: "ready"; at: number };
+
+/** What a host renders: the state plus everything the clock moves. */
+export interface MiningSnapshot {
+  status: MiningEngineStatus;
+  durationMs: number;
+  elapsedMs: number;
+  remainingMs: number;
+  /** 0–100. */
+  progress: number;
+  /** The share of the session reward mined so far. */
+  pendingReward: number;
+  sharesFound: number;
+  blocksFound: number;
+  cooldownRemainingMs: number;
+}
+
+export type RandomSource = (length: number) => Uint8Array;
+
+export class MiningEngineError extends Error {
+  constructor(
+    public readonly command: MiningCommand["type"],
+    message: string,
+  ) {
+    super(message);
+    this.name = "MiningEngineError";
+  }
+}
+
+export function initialMiningState(durationMs: number = MINING_SESSION_MS): MiningEngineState {
+  return {
+    status: "idle",
+    durationMs,
+    activeMs: 0,
+    resumedAt: null,
+    seed: null,
+    sharesFound: 0,
+    blocksFound: 0,
+    cooldownUntil: null,
+  };
+}
+
+export function miningElapsedMs(state: MiningEngineState, now: number): number {
+  const running = state.status === "mining" && state.resumedAt !== null ? Math.max(0, now - state.resumedAt) : 0;
+  return Math.min(state.durationMs, state.activeMs + running);
+}
+
+/** `idle` or `cooldown`, whichever the cooldown says a session-less wallet is in. */
+function settle(state: MiningEngineState, now: number): MiningEngineState {
+  const status = state.cooldownUntil !== null && now < state.cooldownUntil ? "cooldown" : "idle";
+  return { ...state, status };
+}
+
+const reset = (state: MiningEngineState): MiningEngineState => ({
+  ...initialMiningState(state.durationMs),
+  cooldownUntil: state.cooldownUntil,
+});
+
+/**
+ * The mining session state machine. Pure: `now` and `random` come from the
+ * caller, and invalid commands throw a `MiningEngineError`.
+ *
+ *   idle ─start→ mining ─pause→ paused ─resume→ mining ─(time up)→ completed ─claimed→ idle
+ *   mining, paused, completed ─stop→ idle;  idle ⇄ cooldown as the cooldown starts and runs out
+ */
+export function transition(
+  state: MiningEngineState,
+  command: MiningCommand,
+  now: number,
+  random: RandomSource,
+): { state: MiningEngineState; events: MiningEvent[] } {
+  const reject = (message: string): never => {
+    throw new MiningEngineError(command.type, message);
+  };
+  const freshSeed = () => bytesToHex(random(32));
+
+  switch (command.type) {
+    case "start": {
+      if (state.status !== "idle") reject(`Cannot start while ${state.status}`);
+      const durationMs = command.durationMs ?? state.durationMs;
+      return {
+        state: { ...reset(state), status: "mining", durationMs, resumedAt: now, seed: freshSeed() },
+        events: [{ type: "started", at: now, durationMs }],
+      };
+    }
+
+    case "pause":
+      if (state.status !== "mining") reject(`Cannot pause while ${state.status}`);
+      return {
+        state: { ...state, status: "paused", activeMs: miningElapsedMs(state, now), resumedAt: null },
+        events: [{ type: "paused", at: now }],
+      };
+
+    case "resume":
+      if (state.status !== "paused") reject(`Cannot resume while ${state.status}`);
+      return {
+        state: { ...state, status: "mining", resumedAt: now, seed: freshSeed() },
+        events: [{ type: "resumed", at: now }],
+      };
+
+    case "stop":
+      if (state.status !== "mining" && state.status !== "paused" && state.status !== "completed") {
+        reject(`Cannot stop while ${state.status}`);
+      }
+      return { state: settle(reset(state), now), events: [{ type: "stopped", at: now }] };
+
+    case "share":
+      // late shares from a run that just ended still count
+      if (state.status !== "mining" && state.status !== "completed") return { state, events: [] };
+      return {
+        state: {
+          ...state,
+          sharesFound: state.sharesFound + 1,
+          blocksFound: state.blocksFound + (command.share.block ? 1 : 0),
+        },
+        events: [{ type: "share", at: now, share: command.share }],
+      };
+
+    case "restore": {
+      const { session } = command;
+      if (state.status !== "idle" && state.status !== "cooldown") reject(`Cannot restore while ${state.status}`);
+      if (session.status !== "mining" && session.status !== "paused" && session.status !== "completed") {
+        reject(`Cannot restore a ${session.status} session`);
+      }
+      const status = session.status as "mining" | "paused" | "completed";
+      return {
+        state: {
+          ...state,
+          status,
+          durationMs: session.durationMs,
+          activeMs: session.elapsedMs,
+          resumedAt: status === "mining" ? now : null,
+          seed: freshSeed(),
+          sharesFound: session.sharesFound,
+          blocksFound: session.blocksFound,
+        },
+        events: [{ type: "restored", at: now, status, startedAt: new Date(session.startedAt).getTime() }],
+      };
+    }
+
+    case "claimed":
+      if (state.status !== "completed") reject(`Cannot claim while ${state.status}`);
+      return { state: settle(reset(state), now), events: [{ type: "claimed", at: now }] };
+
+    case "cooldown": {
+      const next = { ...state, cooldownUntil: command.until };
+      if (state.status !== "idle" && state.status !== "cooldown") return { state: next, events: [] };
+      const settled = settle(next, now);
+      if (settled.status === state.status) return { state: settled, events: [] };
+      return {
+        state: settled,
+        events: [settled.status === "cooldown" ? { type: "cooldown", at: now, until: command.until! } : { type: "ready", at: now }],
+      };
+    }
+
+    case "tick":
+      if (state.status === "mining" && miningElapsedMs(state, now) >= state.durationMs) {
+        return {
+          state: { ...state, status: "completed", activeMs: state.durationMs, resumedAt: null },
+          events: [{ type: "completed", at: now }],
+        };
+      }
+      if (state.status === "cooldown" && settle(state, now).status === "idle") {
+        return { state: { ...state, status: "idle" }, events: [{ type: "ready", at: now }] };
+      }
+      return { state, events: [] };
+  }
+}
+
+export function toMiningSnapshot(state: MiningEngineState, now: number, reward: number): MiningSnapshot {
+  const elapsedMs = miningElapsedMs(state, now);
+  return {
+    status: state.status,
+    durationMs: state.durationMs,
+    elapsedMs,
+    remainingMs: state.durationMs - elapsedMs,
+    progress: (elapsedMs / state.durationMs) * 100,
+    pendingReward: (elapsedMs / state.durationMs) * reward,
+    sharesFound: state.sharesFound,
+    blocksFound: state.blocksFound,
+    cooldownRemainingMs: state.cooldownUntil === null ? 0 : Math.max(0, state.cooldownUntil - now),
+  };
+}
+
+/** The mining console's line for an event, shared by the browser and the CLI; null for silent ones. */
+export function describeMiningEvent(
+  event: MiningEvent,
+  reward: number,
+): { type: "block" | "share" | "info" | "reward"; message: string } | null {
+  switch (event.type) {
+    case "share":
+      if (event.share.block) return { type: "block", message: `Block found! Hash: ${event.share.hash.slice(0, 18)}...` };
+      return {
+        type: "share",
+        message: `Share accepted #${event.share.nonce.toString(16).toUpperCase()} (${event.share.hash.slice(0, 12)}...)`,
+      };
+    case "paused":
+      return { type: "info", message: "Mining paused by user" };
+    case "resumed":
+      return { type: "info", message: "Mining resumed" };
+    case "completed":
+      return { type: "reward", message: `Mining session completed! ${reward} USDC ready to claim` };
+    case "restored":
+      return {
+        type: "info",
+        message: `Restored mining session from ${new Date(event.startedAt).toLocaleTimeString("en-US", { hour12: false })}`,
+      };
+    default:
+      return null;
+  }
+}
+
+export interface MiningEngineOptions {
+  durationMs?: number;
+  /** USDC paid for a completed session. */
+  reward?: number;
+  clock?: () => number;
+  random?: RandomSource;
+}
+
+type MiningListener = (event: MiningEvent, state: MiningEngineState) => void;
+
+/**
+ * Holds a `transition` state with a clock and random source, and tells
+ * listeners about every event. Nothing here runs on its own: hosts call
+ * `tick()` on their own timer.
+ */
+export class MiningEngine {
+  readonly reward: number;
+  private current: MiningEngineState;
+  private clock: () => number;
+  private random: RandomSource;
+  private listeners = new Set<MiningListener>();
+
+  constructor(options: MiningEngineOptions = {}) {
+    this.current = initialMiningState(options.durationMs);
+    this.reward = options.reward ?? 200;
+    this.clock = options.clock ?? Date.now;
+    this.random = options.random ?? ((length) => crypto.getRandomValues(new Uint8Array(length)));
+  }
+
+  get state(): MiningEngineState {
+    return this.current;
+  }
+
+  snapshot(): MiningSnapshot {
+    return toMiningSnapshot(this.current, this.clock(), this.reward);
+  }
+
+  subscribe(listener: MiningListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  dispatch(command: MiningCommand): MiningEvent[] {
+    const { state, events } = transition(this.current, command, this.clock(), this.random);
+    this.current = state;
+    events.forEach((event) => this.listeners.forEach((listener) => listener(event, state)));
+    return events;
+  }
+
+  start(durationMs?: number) {
+    return this.dispatch({ type: "start", durationMs });
+  }
+
+  pause() {
+    return this.dispatch({ type: "pause" });
+  }
+
+  resume() {
+    return this.dispatch({ type: "resume" });
+  }
+
+  stop() {
+    return this.dispatch({ type: "stop" });
+  }
+
+  recordShare(share: FoundNonce) {
+    return this.dispatch({ type: "share", share });
+  }
+
+  restore(session: MiningSessionView) {
+    return this.dispatch({ type: "restore", session });
+  }
+
+  claimed() {
+    return this.dispatch({ type: "claimed" });
+  }
+
+  setCooldown(until: number | null) {
+    return this.dispatch({ type: "cooldown", until });
+  }
+
+  tick() {
+    return this.dispatch({ type: "tick" });
+  }
+}
@@ -0,0 +1,66 @@
+import { isAddress, parseUnits, type Address } from "viem";
+import { z } from "zod";
+
+const addressSchema = z
+  .string()
+  .refine((value) => isAddress(value), { message: "must be a 0x-prefixed 20-byte address" })
+  .transform((value) => value as Address);
+
+const amountSchema = z.string().regex(/^\d+(\.\d+)?$/, "must be a decimal token amount");
+
+export const networkProfileSchema = z.object({
+  chainId: z.coerce.number().int().positive(),
+  name: z.string().min(1),
+  testnet: z.boolean().default(true),
+  rpcUrl: z.string().url(),
+  explorerUrl: z.string().url(),
+  explorerApiUrl: z.string().url(),
+  faucetAddress: addressSchema,
+  usdcAddress: addressSchema,
+  usdcDecimals: z.coerce.number().int().min(0).default(6),
+  /** USDC paid by one `claim()`. */
+  claimAmount: amountSchema.default("200"),
+  /** Lifetime USDC cap per wallet enforced by the faucet. */
+  maxClaimTotal: amountSchema.default("2000"),
+  /** Wait between two claims by the same wallet. */
+  claimCooldownSeconds: z.coerce.number().int().min(0).default(600),
+  /** The RPC and Arcscan URLs are this app's own stand-ins; see `MOCK_CHAIN` in server/network.ts. */
+  mock: z.boolean().default(false),
+});
+
+export type NetworkProfile = z.infer<typeof networkProfileSchema>;
+
+export const ARC_TESTNET: NetworkProfile = {
+  chainId: 5042002,
+  name: "Arc Testnet",
+  testnet: true,
+  rpcUrl: "https://rpc.testnet.arc.network",
+  explorerUrl: "https://testnet.arcscan.app",
+  explorerApiUrl: "https://testnet.arcscan.app/api",
+  faucetAddress: "0xBd736A5D744A6364dd74B12Bb679d66360d7AeD9",
+  usdcAddress: "0x3600000000000000000000000000000000000000",
+  usdcDecimals: 6,
+  claimAmount: "200",
+  maxClaimTotal: "2000",
+  claimCooldownSeconds: 600,
+  mock: false,
+};
+
+/** Where a `MOCK_CHAIN=1` server answers in place of the Arc RPC and the Arcscan API. */
+export const MOCK_RPC_PATH = "/mock/rpc";
+export const MOCK_ARCSCAN_PATH = "/mock/arcscan/api";
+
+/** The first Hardhat/Anvil dev account, which the mock chain holds the key for and signs as. */
+export const MOCK_WALLET_ADDRESS: Address = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+export function parseNetworkProfile(input: unknown): NetworkProfile {
+  return networkProfileSchema.parse(input);
+}
+
+export function claimAmountUnits(profile: NetworkProfile): bigint {
+  return parseUnits(profile.claimAmount, profile.usdcDecimals);
+}
+
+export function maxClaimTotalUnits(profile: NetworkProfile): bigint {
+  return parseUnits(profile.maxClaimTotal, profile.usdcDecimals);
+}
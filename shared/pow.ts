@@ -0,0 +1,147 @@
+import { bytesToHex, hexToBytes, keccak256, numberToBytes, type Hex } from "viem";
+
+const MAX_HASH = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+/** Expected hashes per share; a few seconds of work for a browser at ~100 kH/s. */
+export const DEFAULT_SHARE_DIFFICULTY = 1 << 18;
+/** Expected hashes per block, 16 shares' worth. */
+export const DEFAULT_BLOCK_DIFFICULTY = 1 << 22;
+
+/** The largest hash that meets `difficulty`: one in `difficulty` hashes is expected to. */
+export function difficultyToTarget(difficulty: number): bigint {
+  return MAX_HASH / BigInt(Math.max(1, Math.floor(difficulty)));
+}
+
+/** Targets as 32 big-endian bytes, so hashes can be compared without converting them. */
+export function targetToBytes(target: bigint): Uint8Array {
+  return numberToBytes(target, { size: 32 });
+}
+
+/** keccak256 over the 32-byte job seed followed by the nonce as 8 big-endian bytes. */
+export function powHash(seed: Hex, nonce: bigint): Uint8Array {
+  const input = new Uint8Array(40);
+  input.set(hexToBytes(seed, { size: 32 }));
+  new DataView(input.buffer).setBigUint64(32, nonce);
+  return keccak256(input, "bytes");
+}
+
+export function meetsTarget(hash: Uint8Array, target: Uint8Array): boolean {
+  for (let i = 0; i < 32; i++) {
+    if (hash[i] !== target[i]) return hash[i] < target[i];
+  }
+  return true;
+}
+
+export const formatHashrate = (hashesPerSecond: number) => {
+  if (hashesPerSecond >= 1e6) return `${(hashesPerSecond / 1e6).toFixed(2)} MH/s`;
+  if (hashesPerSecond >= 1e3) return `${(hashesPerSecond / 1e3).toFixed(2)} kH/s`;
+  return `${hashesPerSecond.toFixed(0)} H/s`;
+};
+
+export interface MinerDevices {
+  cpu: boolean;
+  gpu: boolean;
+}
+
+/**
+ * Workers to run for the selected devices, leaving one core free. Hashing
+ * always happens on the CPU; the GPU toggle adds the cores the CPU setting
+ * leaves idle.
+ */
+export function minerWorkerCount(devices: MinerDevices, logicalCores: number): number {
+  const cores = Math.max(1, logicalCores - 1);
+  const cpuWorkers = Math.ceil(cores / 2);
+  return (devices.cpu ? cpuWorkers : 0) + (devices.gpu ? Math.max(1, cores - cpuWorkers) : 0);
+}
+
+export interface FoundNonce {
+  nonce: number;
+  hash: Hex;
+  /** Also below the block target. */
+  block: boolean;
+}
+
+/**
+ * Walks a job's nonces `startNonce, startNonce + stride, ...` a batch at a
+ * time, so a miner can check for new work between batches. Several searches
+ * with the same stride and different start nonces never overlap.
+ */
+export class NonceSearch {
+  private input = new Uint8Array(40);
+  private view = new DataView(this.input.buffer);
+  private shareTarget: Uint8Array;
+  private blockTarget: Uint8Array;
+
+  constructor(
+    seed: Hex,
+    shareTarget: bigint,
+    blockTarget: bigint,
+    private nonce: number,
+    private stride: number,
+  ) {
+    this.input.set(hexToBytes(seed, { size: 32 }));
+    this.shareTarget = targetToBytes(shareTarget);
+    this.blockTarget = targetToBytes(blockTarget);
+  }
+
+  /** Hashes the next `count` nonces and reports those that meet the share target. */
+  next(count: number, onFound: (found: FoundNonce) => void) {
+    for (let i = 0; i < count; i++) {
+      // the nonce as 8 big-endian bytes, matching powHash
+      this.view.setUint32(32, Math.floor(this.nonce / 0x100000000));
+      this.view.setUint32(36, this.nonce >>> 0);
+      const hash = keccak256(this.input, "bytes");
+      if (meetsTarget(hash, this.shareTarget)) {
+        onFound({ nonce: this.nonce, hash: bytesToHex(hash), block: meetsTarget(hash, this.blockTarget) });
+      }
+      this.nonce += this.stride;
+    }
+  }
+}
+
+export type MinerWorkerRequest =
+  | { type: "start"; seed: Hex; shareTarget: bigint; blockTarget: bigint; startNonce: number; stride: number }
+  | { type: "stop" };
+
+export type MinerWorkerMessage = { type: "hashes"; count: number; elapsedMs: number } | ({ type: "share" } & FoundNonce);
+
+// small enough that a stop message is picked up within a few milliseconds
+const WORKER_BATCH_SIZE = 2000;
+const WORKER_REPORT_INTERVAL_MS = 1000;
+
+/**
+ * The loop a miner worker runs, for Web Workers and worker_threads alike:
+ * returns the handler for its requests. `schedule` queues the next batch
+ * behind any pending message, so a new start or a stop replaces the running
+ * search within one batch.
+ */
+export function createMinerWorkerLoop(
+  post: (message: MinerWorkerMessage) => void,
+  schedule: (batch: () => void) => void,
+): (request: MinerWorkerRequest) => void {
+  // bumped on every request so a running loop notices it was replaced or stopped
+  let generation = 0;
+
+  return (request) => {
+    const current = ++generation;
+    if (request.type !== "start") return;
+
+    const search = new NonceSearch(request.seed, request.shareTarget, request.blockTarget, request.startNonce, request.stride);
+    let hashed = 0;
+    let reportedAt = performance.now();
+    const batch = () => {
+      if (current !== generation) return;
+      search.next(WORKER_BATCH_SIZE, (found) => post({ type: "share", ...found }));
+      hashed += WORKER_BATCH_SIZE;
+
+      const now = performance.now();
+      if (now - reportedAt >= WORKER_REPORT_INTERVAL_MS) {
+        post({ type: "hashes", count: hashed, elapsedMs: now - reportedAt });
+        hashed = 0;
+        reportedAt = now;
+      }
+      schedule(batch);
+    };
+    batch();
+  };
+}
@@ -1,20 +1,365 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, decimal, index, uniqueIndex, bigint, integer, doublePrecision, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-export const claimHistory = pgTable("claim_history", {
+export const claimHistory = pgTable(
+  "claim_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    walletAddress: varchar("wallet_address", { length: 42 }).notNull(),
+    amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
+    transactionHash: varchar("transaction_hash", { length: 66 }),
+    blockNumber: bigint("block_number", { mode: "number" }),
+    logIndex: integer("log_index"),
+    claimedAt: timestamp("claimed_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("claim_history_claimed_at_idx").on(table.claimedAt),
+    index("claim_history_wallet_claimed_at_idx").on(
+      sql`lower(${table.walletAddress})`,
+      table.claimedAt,
+    ),
+    uniqueIndex("claim_history_transaction_hash_idx").on(table.transactionHash),
+    index("claim_history_block_number_idx").on(table.blockNumber),
+  ],
+);
+
+export const indexerCheckpoints = pgTable("indexer_checkpoints", {
+  name: varchar("name").primaryKey(),
+  blockNumber: bigint("block_number", { mode: "number" }).notNull(),
+  blockHash: varchar("block_hash", { length: 66 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const explorerTotals = pgTable("explorer_totals", {
+  name: varchar("name").primaryKey(),
+  // raw token units, kept as text so sums never lose precision
+  totalClaimed: text("total_claimed").notNull(),
+  claimCount: integer("claim_count").notNull(),
+  highWaterBlock: bigint("high_water_block", { mode: "number" }).notNull(),
+  highWaterHashes: text("high_water_hashes").array().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const faucetBalanceSnapshots = pgTable(
+  "faucet_balance_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    balance: decimal("balance", { precision: 30, scale: 6 }).notNull(),
+    sampledAt: timestamp("sampled_at").defaultNow().notNull(),
+  },
+  (table) => [index("faucet_balance_snapshots_sampled_at_idx").on(table.sampledAt)],
+);
+
+export const rateLimitBuckets = pgTable(
+  "rate_limit_buckets",
+  {
+    key: varchar("key").primaryKey(),
+    tokens: doublePrecision("tokens").notNull(),
+    // whether the most recent consume() on this bucket was let through
+    allowed: boolean("allowed").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+    // when the bucket will have refilled completely; past that it is pruned
+    fullAt: timestamp("full_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index("rate_limit_buckets_full_at_idx").on(table.fullAt)],
+);
+
+export const webhookEvents = ["claim.recorded", "faucet.balance_low", "wallet.limit_reached"] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  walletAddress: varchar("wallet_address", { length: 42 }).notNull(),
-  amount: decimal("amount", { precision: 18, scale: 6 }).notNull(),
-  transactionHash: varchar("transaction_hash", { length: 66 }),
-  claimedAt: timestamp("claimed_at").defaultNow().notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events").array().$type<WebhookEvent[]>().notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    endpointId: varchar("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+    event: text("event").$type<WebhookEvent>().notNull(),
+    // one delivery per endpoint per occurrence, e.g. `claim.recorded:<tx hash>`
+    eventKey: text("event_key").notNull(),
+    payload: jsonb("payload").notNull(),
+    status: text("status").$type<WebhookDeliveryStatus>().default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    deliveredAt: timestamp("delivered_at"),
+  },
+  (table) => [
+    uniqueIndex("webhook_deliveries_endpoint_event_key_idx").on(table.endpointId, table.eventKey),
+    index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+    index("webhook_deliveries_created_at_idx").on(table.createdAt),
+  ],
+);
+
+export const miningSessionStatuses = ["mining", "paused", "completed", "stopped", "claimed"] as const;
+
+export type MiningSessionStatus = (typeof miningSessionStatuses)[number];
+
+export const miningSessions = pgTable(
+  "mining_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    walletAddress: varchar("wallet_address", { length: 42 }).notNull(),
+    status: text("status").$type<MiningSessionStatus>().default("mining").notNull(),
+    durationMs: integer("duration_ms").notNull(),
+    // mining time banked by earlier runs; the current run counts from `resumedAt`
+    activeMs: integer("active_ms").default(0).notNull(),
+    resumedAt: timestamp("resumed_at"),
+    blocksFound: integer("blocks_found").default(0).notNull(),
+    sharesFound: integer("shares_found").default(0).notNull(),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    endedAt: timestamp("ended_at"),
+  },
+  (table) => [
+    index("mining_sessions_wallet_started_at_idx").on(
+      sql`lower(${table.walletAddress})`,
+      table.startedAt,
+    ),
+  ],
+);
+
+export const miningJobs = pgTable(
+  "mining_jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => miningSessions.id, { onDelete: "cascade" }),
+    seed: varchar("seed", { length: 66 }).notNull(),
+    shareDifficulty: bigint("share_difficulty", { mode: "number" }).notNull(),
+    blockDifficulty: bigint("block_difficulty", { mode: "number" }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [index("mining_jobs_session_created_at_idx").on(table.sessionId, table.createdAt)],
+);
+
+export const miningShares = pgTable(
+  "mining_shares",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => miningSessions.id, { onDelete: "cascade" }),
+    jobId: varchar("job_id")
+      .notNull()
+      .references(() => miningJobs.id, { onDelete: "cascade" }),
+    nonce: bigint("nonce", { mode: "number" }).notNull(),
+    hash: varchar("hash", { length: 66 }).notNull(),
+    difficulty: bigint("difficulty", { mode: "number" }).notNull(),
+    block: boolean("block").default(false).notNull(),
+    submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // a nonce can only ever be credited once per job
+    uniqueIndex("mining_shares_job_nonce_idx").on(table.jobId, table.nonce),
+    index("mining_shares_session_idx").on(table.sessionId),
+  ],
+);
+
 export const insertClaimHistorySchema = createInsertSchema(claimHistory).omit({
   id: true,
   claimedAt: true,
+  blockNumber: true,
+  logIndex: true,
 });
 
 export type InsertClaimHistory = z.infer<typeof insertClaimHistorySchema>;
 export type ClaimHistory = typeof claimHistory.$inferSelect;
+
+export type IndexedClaim = Omit<ClaimHistory, "id" | "transactionHash" | "blockNumber" | "logIndex"> & {
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+};
+
+/** A submitted claim checked on chain, dated by the block that mined it. */
+export type InsertVerifiedClaim = InsertClaimHistory & Pick<IndexedClaim, "blockNumber" | "claimedAt">;
+
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = Pick<WebhookEndpoint, "url" | "secret" | "events">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Pick<WebhookDelivery, "endpointId" | "event" | "eventKey" | "payload">;
+
+export type MiningSession = typeof miningSessions.$inferSelect;
+export type InsertMiningSession = Pick<MiningSession, "walletAddress" | "durationMs" | "resumedAt" | "startedAt">;
+export type MiningSessionUpdate = Partial<
+  Pick<MiningSession, "status" | "activeMs" | "resumedAt" | "endedAt">
+>;
+
+export type MiningJob = typeof miningJobs.$inferSelect;
+export type InsertMiningJob = Pick<MiningJob, "sessionId" | "seed" | "shareDifficulty" | "blockDifficulty" | "createdAt" | "expiresAt">;
+export type MiningShare = typeof miningShares.$inferSelect;
+export type InsertMiningShare = Pick<MiningShare, "sessionId" | "jobId" | "nonce" | "hash" | "difficulty" | "block">;
+
+export type IndexerCheckpoint = Omit<typeof indexerCheckpoints.$inferSelect, "updatedAt">;
+
+export type ExplorerTotals = Omit<typeof explorerTotals.$inferSelect, "updatedAt">;
+
+export interface ClaimTotals {
+  totalClaimed: string;
+  claimCount: number;
+}
+
+export const leaderboardWindows = ["24h", "7d", "30d", "all"] as const;
+
+export type LeaderboardWindow = (typeof leaderboardWindows)[number];
+
+export interface LeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  totalClaimed: string;
+  claimCount: number;
+}
+
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  /** The requested wallet's row, present even when it is outside `entries`. */
+  wallet: LeaderboardEntry | null;
+}
+
+export const timeseriesBuckets = ["hour", "day"] as const;
+
+export type TimeseriesBucket = (typeof timeseriesBuckets)[number];
+
+export interface TimeseriesPoint {
+  /** ISO start of the UTC hour or day. */
+  bucketStart: string;
+  claimCount: number;
+  totalClaimed: string;
+  uniqueWallets: number;
+  /** Wallets whose first ever claim falls in this bucket. */
+  newWallets: number;
+}
+
+export interface ClaimTimeseries {
+  bucket: TimeseriesBucket;
+  from: string;
+  to: string;
+  /** USDC distributed before `from`, the baseline for cumulative charts. */
+  claimedBefore: string;
+  points: TimeseriesPoint[];
+}
+
+export type FaucetBalanceSnapshot = typeof faucetBalanceSnapshots.$inferSelect;
+
+export interface FaucetBalanceHistory {
+  from: string;
+  to: string;
+  points: { sampledAt: string; balance: string }[];
+}
+
+export const claimSources = ["storage", "explorer"] as const;
+
+export type ClaimSource = (typeof claimSources)[number];
+
+/** Whether a wallet may claim again, worked out from its most recent claim. */
+export interface ClaimEligibility {
+  walletAddress: string;
+  eligible: boolean;
+  lastClaim: { claimedAt: string; transactionHash: string | null; source: ClaimSource } | null;
+  cooldownMs: number;
+  /** When the cooldown ends; null if the wallet has never claimed. */
+  unlocksAt: string | null;
+  checkedAt: string;
+}
+
+export const claimRejectionReasons = [
+  "invalid_transaction_hash",
+  "transaction_not_found",
+  "transaction_failed",
+  "not_faucet_transaction",
+  "not_claim_call",
+  "transfer_not_found",
+  "amount_mismatch",
+] as const;
+
+export type ClaimRejectionReason = (typeof claimRejectionReasons)[number];
+
+/** Freshness of explorer-derived responses; `fetchedAt` is null when nothing was fetched yet. */
+export interface CacheMeta {
+  fetchedAt: string | null;
+  stale: boolean;
+}
+
+/** A claim as listed by `GET /api/claim-history` and pushed on the live feed. */
+export interface RecentClaim {
+  id: string;
+  walletAddress: string;
+  amount: string;
+  transactionHash: string | null;
+  claimedAt: string;
+}
+
+/** `GET /api/claim-history`: the latest claims and how fresh the explorer data behind them is. */
+export interface ClaimHistoryResponse extends CacheMeta {
+  claims: RecentClaim[];
+}
+
+export type LiveEvent =
+  | { type: "claim.created"; claim: RecentClaim }
+  | { type: "stats.updated"; totals: ClaimTotals & CacheMeta };
+
+export const LIVE_FEED_PATH = "/ws";
+
+/** How long a mining session has to run before its reward can be claimed. */
+export const MINING_SESSION_MS = 600000;
+
+export const miningSessionActions = ["start", "pause", "resume", "stop", "complete"] as const;
+
+export type MiningSessionAction = (typeof miningSessionActions)[number];
+
+/** A mining session as the API returns it, with its clock worked out server-side. */
+export interface MiningSessionView {
+  id: string;
+  status: MiningSessionStatus;
+  durationMs: number;
+  elapsedMs: number;
+  remainingMs: number;
+  blocksFound: number;
+  sharesFound: number;
+  startedAt: string;
+  updatedAt: string;
+  endedAt: string | null;
+}
+
+/** Work handed to a miner: find nonces whose `powHash(seed, nonce)` is below the targets. */
+export interface MiningJobView {
+  id: string;
+  seed: string;
+  shareDifficulty: number;
+  blockDifficulty: number;
+  expiresAt: string;
+}
+
+export const shareRejectionReasons = ["unknown_job", "stale_job", "duplicate_share", "low_difficulty"] as const;
+
+export type ShareRejectionReason = (typeof shareRejectionReasons)[number];
+
+/**
+ * Outcome of a submitted share. `job` is set when the miner should switch:
+ * after a difficulty retarget, or to the current job when it sent a stale one.
+ */
+export type ShareResult =
+  | { accepted: true; block: boolean; hash: string; sharesFound: number; blocksFound: number; job: MiningJobView | null }
+  | { accepted: false; reason: ShareRejectionReason; message: string; job: MiningJobView | null };
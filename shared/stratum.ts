@@ -0,0 +1,176 @@
+import type { Hex } from "viem";
+
+/**
+ * A Stratum-style JSON-RPC mining protocol, one JSON message per WebSocket
+ * frame. Requests are `{ id, method, params }` and answered with
+ * `{ id, result, error }`; the pool pushes `{ id: null, method, params }`
+ * notifications. Errors are Stratum's `[code, message, null]` triples.
+ *
+ * Client → pool:
+ * - `mining.subscribe [userAgent?]` → `[[["mining.set_difficulty", id], ["mining.notify", id]], "", 0]`
+ *   (no extranonce: the 8-byte nonce is the whole search space)
+ * - `mining.authorize [walletAddress, password?]` → `true`
+ * - `mining.submit [walletAddress, jobId, nonce]` → `true`
+ *
+ * Pool → client:
+ * - `mining.set_difficulty [shareDifficulty]`, applying to the jobs that follow
+ * - `mining.notify [jobId, seed, blockDifficulty, cleanJobs]`
+ * - `client.show_message [message]`
+ */
+export const STRATUM_PATH = "/stratum";
+
+export const stratumErrorCodes = {
+  other: 20,
+  jobNotFound: 21,
+  duplicateShare: 22,
+  lowDifficulty: 23,
+  unauthorized: 24,
+  notSubscribed: 25,
+} as const;
+
+export type StratumErrorTriple = [code: number, message: string, traceback: null];
+
+export type StratumRequestId = number | string;
+
+export interface StratumRequest {
+  id: StratumRequestId;
+  method: string;
+  params: unknown[];
+}
+
+export interface StratumResponse {
+  id: StratumRequestId | null;
+  result: unknown;
+  error: StratumErrorTriple | null;
+}
+
+export type StratumNotification =
+  | { id: null; method: "mining.set_difficulty"; params: [shareDifficulty: number] }
+  | { id: null; method: "mining.notify"; params: [jobId: string, seed: Hex, blockDifficulty: number, cleanJobs: boolean] }
+  | { id: null; method: "client.show_message"; params: [message: string] };
+
+export type StratumMessage = StratumResponse | StratumNotification;
+
+/** A job as a miner sees it: the latest `mining.notify` with the difficulty set before it. */
+export interface StratumJob {
+  id: string;
+  seed: Hex;
+  shareDifficulty: number;
+  blockDifficulty: number;
+  /** Work on earlier jobs is no longer accepted. */
+  clean: boolean;
+}
+
+export class StratumError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StratumError";
+  }
+}
+
+/** The parts of a browser `WebSocket` (and the `ws` package's) the client needs. */
+export interface StratumSocket {
+  send(data: string): void;
+  close(): void;
+  addEventListener(type: "open" | "close", listener: () => void): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+}
+
+export interface StratumClientHandlers {
+  onJob: (job: StratumJob) => void;
+  onMessage?: (message: string) => void;
+  onClose?: () => void;
+}
+
+/**
+ * Speaks the protocol above over an already-created socket. Calls made before
+ * the socket opens are queued, and every pending call fails when it closes.
+ */
+export class StratumClient {
+  private nextId = 1;
+  private open = false;
+  private queue: string[] = [];
+  private pending = new Map<StratumRequestId, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private difficulty: number | null = null;
+
+  constructor(
+    private socket: StratumSocket,
+    private handlers: StratumClientHandlers,
+  ) {
+    socket.addEventListener("open", () => {
+      this.open = true;
+      this.queue.forEach((data) => socket.send(data));
+      this.queue = [];
+    });
+    socket.addEventListener("message", (event) => this.handle(String(event.data)));
+    socket.addEventListener("close", () => {
+      this.open = false;
+      this.pending.forEach(({ reject }) => reject(new StratumError(stratumErrorCodes.other, "Connection closed")));
+      this.pending.clear();
+      this.handlers.onClose?.();
+    });
+  }
+
+  subscribe(userAgent: string): Promise<unknown> {
+    return this.call("mining.subscribe", [userAgent]);
+  }
+
+  async authorize(walletAddress: string): Promise<void> {
+    await this.call("mining.authorize", [walletAddress]);
+  }
+
+  /** Resolves once the pool accepts the share; rejects with a `StratumError` otherwise. */
+  async submit(walletAddress: string, jobId: string, nonce: number): Promise<void> {
+    await this.call("mining.submit", [walletAddress, jobId, nonce]);
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  private call(method: string, params: unknown[]): Promise<unknown> {
+    const request: StratumRequest = { id: this.nextId++, method, params };
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      const data = JSON.stringify(request);
+      if (this.open) this.socket.send(data);
+      else this.queue.push(data);
+    });
+  }
+
+  private handle(data: string) {
+    let message: StratumMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (!("method" in message)) {
+      const call = message.id === null ? undefined : this.pending.get(message.id);
+      if (!call) return;
+      this.pending.delete(message.id!);
+      if (message.error) call.reject(new StratumError(message.error[0], message.error[1]));
+      else call.resolve(message.result);
+      return;
+    }
+
+    switch (message.method) {
+      case "mining.set_difficulty":
+        this.difficulty = message.params[0];
+        break;
+      case "mining.notify": {
+        const [id, seed, blockDifficulty, clean] = message.params;
+        // until the pool sets a difficulty, only blocks count as shares
+        this.handlers.onJob({ id, seed, shareDifficulty: this.difficulty ?? blockDifficulty, blockDifficulty, clean });
+        break;
+      }
+      case "client.show_message":
+        this.handlers.onMessage?.(message.params[0]);
+        break;
+    }
+  }
+}